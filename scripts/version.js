@@ -11,6 +11,7 @@ const { execSync } = require('child_process');
 
 const PACKAGE_JSON_PATH = path.join(__dirname, '..', 'package.json');
 const CHANGELOG_PATH = path.join(__dirname, '..', 'CHANGELOG.md');
+const VERSION_SOURCE_PATH = path.join(__dirname, '..', 'src', 'version.ts');
 
 function getCurrentVersion() {
   const packageJson = JSON.parse(fs.readFileSync(PACKAGE_JSON_PATH, 'utf8'));
@@ -21,6 +22,10 @@ function updateVersion(newVersion) {
   const packageJson = JSON.parse(fs.readFileSync(PACKAGE_JSON_PATH, 'utf8'));
   packageJson.version = newVersion;
   fs.writeFileSync(PACKAGE_JSON_PATH, JSON.stringify(packageJson, null, 2) + '\n');
+
+  // The SDK sends its version to the daemon, so the source constant must match
+  const source = fs.readFileSync(VERSION_SOURCE_PATH, 'utf8');
+  fs.writeFileSync(VERSION_SOURCE_PATH, source.replace(/SDK_VERSION = '[^']*'/, `SDK_VERSION = '${newVersion}'`));
   return newVersion;
 }
 
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileSystemBaselineStore } from '../baseline-store';
+import { encodePNG } from '../png';
+import { NeuroSpec } from '../index';
+
+function png(shade: number): Buffer {
+  const data = new Uint8Array(4 * 4 * 4).fill(255);
+  for (let i = 0; i < 16; i++) data.set([shade, shade, shade], i * 4);
+  return encodePNG({ width: 4, height: 4, data });
+}
+
+describe('FileSystemBaselineStore', () => {
+  let root: string;
+  let store: FileSystemBaselineStore;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'neuraldiff-baselines-'));
+    store = new FileSystemBaselineStore(root);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('stores content-addressed versions with JSON metadata', async () => {
+    const record = await store.put('home@mobile.dark', png(10), { hash: 'ABC123def', tag: 'v1' });
+
+    expect(record).toMatchObject({ name: 'home@mobile.dark', version: 'abc123def', hash: 'ABC123def', width: 4, height: 4, tag: 'v1' });
+    expect(fs.existsSync(path.join(root, 'home@mobile.dark', 'abc123def.png'))).toBe(true);
+    expect(JSON.parse(fs.readFileSync(path.join(root, 'home@mobile.dark', 'abc123def.json'), 'utf8')).tag).toBe('v1');
+
+    const again = await store.put('home@mobile.dark', png(10), { hash: 'ABC123def' });
+    expect(again.version).toBe(record.version);
+    expect(await store.history('home@mobile.dark')).toHaveLength(1);
+  });
+
+  it('tracks history, the current version and deletions', async () => {
+    const first = await store.put('home', png(10));
+    const second = await store.put('home', png(20));
+    await store.put('about', png(30));
+
+    expect((await store.history('home')).map(r => r.version)).toEqual([second.version, first.version]);
+    expect((await store.get('home'))?.record.version).toBe(second.version);
+    expect((await store.get('home', first.version))?.image.equals(png(10))).toBe(true);
+    expect((await store.list()).map(r => r.name)).toEqual(['about', 'home']);
+
+    await store.delete('home', second.version);
+    expect((await store.get('home'))?.record.version).toBe(first.version);
+
+    await store.delete('home');
+    expect(await store.get('home')).toBeNull();
+    expect(await store.history('home')).toEqual([]);
+  });
+
+  it('rejects names that would escape the store', async () => {
+    await expect(store.put('..', png(10))).rejects.toThrow('Invalid baseline name');
+    const record = await store.put('pages/blog post', png(10));
+    expect(fs.readdirSync(root)).toEqual(['pages~2Fblog~20post']);
+    expect(record.name).toBe('pages/blog post');
+  });
+
+  it('backs NeuroSpec baselines, rollback and comparisons', async () => {
+    const http = axios.create();
+    const post = vi.spyOn(http, 'post').mockResolvedValue({ data: { phases: { static: { result: { probability: 0.5, reasons: [] } } } } });
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, baselineStore: store, httpClient: http });
+
+    const v1 = await neuro.updateBaseline('home', png(10));
+    const v2 = await neuro.updateBaseline('home', png(200));
+
+    const unchanged = await neuro.compare('home', { currentImage: png(200), hash: true });
+    expect(unchanged.hasChanges).toBe(false);
+    expect(post).not.toHaveBeenCalled();
+
+    await neuro.rollback('home');
+    expect((await store.get('home'))?.record.version).toBe(v1?.version);
+
+    await neuro.rollback('home', { version: v2!.version });
+    expect((await store.get('home'))?.record.version).toBe(v2?.version);
+
+    await expect(neuro.rollback('home', { version: 'deadbeef' })).rejects.toThrow('No baseline version "deadbeef" exists for "home"');
+  });
+
+  it('keeps every entry when puts run concurrently', async () => {
+    const records = await Promise.all([10, 20, 30, 40, 50].map(shade => store.put('home', png(shade))));
+
+    expect((await store.history('home')).map(r => r.version).sort()).toEqual(records.map(r => r.version).sort());
+  });
+
+  it('steps back one version per rollback without rewriting history', async () => {
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, baselineStore: store });
+    const v1 = await neuro.updateBaseline('home', png(10));
+    const v2 = await neuro.updateBaseline('home', png(20));
+    const v3 = await neuro.updateBaseline('home', png(30));
+    const before = await store.history('home');
+
+    await neuro.rollback('home');
+    expect((await store.get('home'))?.record.version).toBe(v2?.version);
+    await neuro.rollback('home');
+    expect((await store.get('home'))?.record.version).toBe(v1?.version);
+    await expect(neuro.rollback('home')).rejects.toThrow('No baseline version before the current one exists for "home"');
+
+    expect(await store.history('home')).toEqual(before);
+    expect(before.map(r => r.version)).toEqual([v3?.version, v2?.version, v1?.version]);
+  });
+});
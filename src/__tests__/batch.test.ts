@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import { NeuroSpec } from '../index';
+import type { BatchProgressEvent } from '../types';
+
+function httpError(status: number, message: string) {
+  return Object.assign(new Error(message), { code: 'ERR_BAD_RESPONSE', response: { status, data: { message } } });
+}
+
+function createNeuro(post: (endpoint: string, body: any) => Promise<unknown>) {
+  const http = axios.create();
+  vi.spyOn(http, 'post').mockImplementation(post);
+  return new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, concurrency: 1, retry: false, httpClient: http });
+}
+
+const compared = { data: { phases: { static: { result: { probability: 0, reasons: [] } } } } };
+
+describe('NeuroSpec.batch', () => {
+  it('retries retryable failures and reports timing, attempts and progress', async () => {
+    let calls = 0;
+    const neuro = createNeuro(async () => {
+      if (++calls < 3) throw httpError(503, 'daemon busy');
+      return compared;
+    });
+    const progress: BatchProgressEvent[] = [];
+
+    const [result] = await neuro.batch([{ type: 'compare', name: 'home' }], { retries: 2, onProgress: e => progress.push(e) });
+
+    expect(result).toMatchObject({ name: 'home', status: 'success', attempts: 3 });
+    expect(result!.duration).toBeGreaterThanOrEqual(0);
+    expect(progress).toHaveLength(1);
+    expect(progress[0]).toMatchObject({ completed: 1, failed: 0, total: 1 });
+  });
+
+  it('returns structured failures and does not retry client errors', async () => {
+    const neuro = createNeuro(async () => { throw httpError(404, 'No baseline for "home"'); });
+
+    const [result] = await neuro.batch([{ type: 'compare', name: 'home', retries: 3 }]);
+
+    expect(result).toMatchObject({
+      status: 'error',
+      attempts: 1,
+      error: 'No baseline for "home"',
+      failure: { step: 'compare', status: 404, code: 'ERR_BAD_RESPONSE', retryable: false }
+    });
+  });
+
+  it('skips the remaining operations after a failure with failFast', async () => {
+    const neuro = createNeuro(async (_endpoint, body) => {
+      if (body.name === 'broken') throw httpError(500, 'boom');
+      return compared;
+    });
+
+    const results = await neuro.batch([
+      { type: 'compare', name: 'home' },
+      { type: 'compare', name: 'broken' },
+      { type: 'compare', name: 'about' }
+    ], { failFast: true });
+
+    expect(results.map(r => r.status)).toEqual(['success', 'error', 'skipped']);
+    expect(results[2]!.error).toBe('Skipped after "broken" failed');
+  });
+
+  it('stops starting operations once aborted', async () => {
+    const controller = new AbortController();
+    const neuro = createNeuro(async () => compared);
+
+    const results = await neuro.batch([
+      { type: 'compare', name: 'home' },
+      { type: 'compare', name: 'about' }
+    ], {
+      signal: controller.signal,
+      onProgress: () => controller.abort()
+    });
+
+    expect(results.map(r => r.status)).toEqual(['success', 'skipped']);
+    expect(results[1]!.error).toBe('Batch was aborted');
+  });
+
+  it('runs capture-then-compare pipelines per name', async () => {
+    const neuro = createNeuro(async endpoint =>
+      endpoint.includes('capture') ? { data: { id: 'cap', success: true, hash: 'abc' } } : compared);
+
+    const [result] = await neuro.batch([{
+      type: 'pipeline',
+      name: 'home',
+      steps: [{ type: 'capture', options: { url: 'http://localhost:3000' } }, { type: 'compare' }]
+    }]);
+
+    expect(result!.status).toBe('success');
+    expect(result!.steps!.map(step => step.type)).toEqual(['capture', 'compare']);
+    expect(result!.result).toMatchObject({ name: 'home', hasChanges: false });
+    await expect(neuro.batch([{ type: 'pipeline', name: 'empty', steps: [] }])).rejects.toThrow('Batch pipeline "empty" has no steps');
+  });
+});
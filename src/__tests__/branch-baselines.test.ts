@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BranchAwareBaselineStore } from '../branch-baselines';
+import { FileSystemBaselineStore } from '../baseline-store';
+import { detectDefaultBranch, detectGitBranch } from '../git';
+import { encodePNG } from '../png';
+import { NeuroSpec } from '../index';
+
+function png(shade: number): Buffer {
+  const data = new Uint8Array(4 * 4 * 4).fill(255);
+  for (let i = 0; i < 16; i++) data.set([shade, shade, shade], i * 4);
+  return encodePNG({ width: 4, height: 4, data });
+}
+
+describe('git branch detection', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'neuraldiff-git-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reads the branch and remote default from .git', () => {
+    fs.mkdirSync(path.join(root, '.git', 'refs', 'remotes', 'origin'), { recursive: true });
+    fs.writeFileSync(path.join(root, '.git', 'HEAD'), 'ref: refs/heads/feature/login\n');
+    fs.writeFileSync(path.join(root, '.git', 'refs', 'remotes', 'origin', 'HEAD'), 'ref: refs/remotes/origin/develop\n');
+    fs.mkdirSync(path.join(root, 'packages', 'app'), { recursive: true });
+
+    expect(detectGitBranch(path.join(root, 'packages', 'app'), {})).toBe('feature/login');
+    expect(detectDefaultBranch(root)).toBe('develop');
+  });
+
+  it('follows worktree .git files', () => {
+    const worktreeGitDir = path.join(root, 'main-repo', '.git', 'worktrees', 'wt');
+    fs.mkdirSync(worktreeGitDir, { recursive: true });
+    fs.writeFileSync(path.join(worktreeGitDir, 'HEAD'), 'ref: refs/heads/fix-header\n');
+    fs.mkdirSync(path.join(root, 'wt'));
+    fs.writeFileSync(path.join(root, 'wt', '.git'), `gitdir: ${worktreeGitDir}\n`);
+
+    expect(detectGitBranch(path.join(root, 'wt'), {})).toBe('fix-header');
+    expect(detectDefaultBranch(path.join(root, 'wt'))).toBe('main');
+  });
+
+  it('falls back to CI variables on a detached HEAD', () => {
+    fs.mkdirSync(path.join(root, '.git'));
+    fs.writeFileSync(path.join(root, '.git', 'HEAD'), '4b825dc642cb6eb9a060e54bf8d69288fbee4904\n');
+
+    expect(detectGitBranch(root, { GITHUB_HEAD_REF: 'pr-branch', GITHUB_REF_NAME: '12/merge' })).toBe('pr-branch');
+    expect(detectGitBranch(root, { CI_COMMIT_REF_NAME: 'gitlab-branch' })).toBe('gitlab-branch');
+    expect(detectGitBranch(root, {})).toBeNull();
+  });
+});
+
+describe('BranchAwareBaselineStore', () => {
+  let root: string;
+  let inner: FileSystemBaselineStore;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'neuraldiff-branches-'));
+    inner = new FileSystemBaselineStore(root);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reads through to the default branch until the branch has its own baseline', async () => {
+    const main = new BranchAwareBaselineStore(inner, { branch: 'main' });
+    const feature = new BranchAwareBaselineStore(inner, { branch: 'feature/login', defaultBranch: 'main' });
+
+    await main.put('home', png(10));
+    await main.put('about', png(20));
+    expect((await feature.get('home'))?.record).toMatchObject({ name: 'home', branch: 'main' });
+
+    await feature.put('home', png(30));
+    expect((await feature.get('home'))?.record.branch).toBe('feature/login');
+    expect((await main.get('home'))?.image.equals(png(10))).toBe(true);
+
+    const listed = await feature.list();
+    expect(listed.map(r => [r.name, r.branch])).toEqual([['about', 'main'], ['home', 'feature/login']]);
+
+    await feature.delete('home');
+    expect((await feature.get('home'))?.record.branch).toBe('main');
+  });
+
+  it('promotes a branch onto the default branch', async () => {
+    const feature = new BranchAwareBaselineStore(inner, { branch: 'feature/login' });
+    await feature.put('home', png(30), { tag: 'redesign' });
+    await feature.put('about', png(40));
+
+    const promoted = await feature.promote({ names: ['home'], removeSource: true });
+
+    expect(promoted).toHaveLength(1);
+    expect(promoted[0]).toMatchObject({ name: 'home', branch: 'main', tag: 'redesign', metadata: { promotedFrom: 'feature/login' } });
+    expect((await new BranchAwareBaselineStore(inner).get('home'))?.image.equals(png(30))).toBe(true);
+    expect((await feature.list()).map(r => [r.name, r.branch])).toEqual([['about', 'feature/login'], ['home', 'main']]);
+  });
+
+  it('moves the branch pointer, copying versions that only exist on the default branch', async () => {
+    const main = new BranchAwareBaselineStore(inner, { branch: 'main' });
+    const feature = new BranchAwareBaselineStore(inner, { branch: 'feature/login', defaultBranch: 'main' });
+    const old = await main.put('home', png(10));
+    await main.put('home', png(20));
+
+    expect(await feature.setCurrent('home', old.version)).toMatchObject({ name: 'home', branch: 'feature/login', version: old.version });
+    expect((await main.get('home'))?.image.equals(png(20))).toBe(true);
+
+    const own = await feature.put('home', png(30));
+    await feature.setCurrent('home', old.version);
+    expect((await feature.history('home')).map(r => r.version)).toEqual([own.version, old.version]);
+    await expect(feature.setCurrent('home', 'deadbeef')).rejects.toThrow('No baseline version "deadbeef" exists for "home"');
+  });
+
+  it('scopes NeuroSpec baselines and daemon requests to the branch', async () => {
+    const http = axios.create();
+    const post = vi.spyOn(http, 'post').mockResolvedValue({ data: {} });
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, baselineStore: inner, branchBaselines: true, branch: 'feature/login', defaultBranch: 'main', httpClient: http });
+
+    const record = await neuro.updateBaseline('home', png(10));
+    expect(record?.branch).toBe('feature/login');
+
+    const promoted = await neuro.promoteBaselines();
+    expect(promoted.map(r => r.branch)).toEqual(['main']);
+
+    await neuro.updateBaseline('remote-only');
+    expect(post).toHaveBeenCalledWith('/baseline/remote-only/update', { branch: 'feature/login', defaultBranch: 'main' });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import { serializeCaptureOptions, validateCaptureOptions, CaptureOptionsError, UnsupportedCaptureOptionError } from '../capture-options';
+import { NeuroSpec } from '../index';
+
+describe('capture options', () => {
+  it('serializes every documented field for the daemon', () => {
+    const payload = serializeCaptureOptions({
+      url: 'https://dashboard.example.com/reports',
+      viewport: { width: 390, height: 844, isMobile: true },
+      headers: { 'X-Tenant': 'acme' },
+      extraHTTPHeaders: { Authorization: 'Bearer token' },
+      cookies: [{ name: 'session', value: 'abc', secure: true }],
+      httpCredentials: { username: 'ci', password: 'secret' },
+      userAgent: 'neuraldiff-ci',
+      geolocation: { latitude: 52.52, longitude: 13.4 },
+      permissions: ['geolocation'],
+      offline: false,
+      javascriptEnabled: true,
+      ignoreHTTPSErrors: true,
+      hasTouch: true
+    });
+
+    expect(payload).toEqual({
+      url: 'https://dashboard.example.com/reports',
+      viewport: { width: 390, height: 844, isMobile: true },
+      waitFor: 'networkidle',
+      fullPage: false,
+      extraHTTPHeaders: { 'X-Tenant': 'acme', Authorization: 'Bearer token' },
+      cookies: [{ name: 'session', value: 'abc', secure: true, domain: 'dashboard.example.com', path: '/' }],
+      httpCredentials: { username: 'ci', password: 'secret' },
+      userAgent: 'neuraldiff-ci',
+      geolocation: { latitude: 52.52, longitude: 13.4 },
+      permissions: ['geolocation'],
+      offline: false,
+      javascriptEnabled: true,
+      ignoreHTTPSErrors: true,
+      isMobile: true,
+      hasTouch: true
+    });
+  });
+
+  it('rejects cookies for other domains and inconsistent device flags', () => {
+    const issues = validateCaptureOptions({
+      url: 'http://localhost:3000',
+      viewport: { width: 375, height: 667, isMobile: true },
+      isMobile: false,
+      cookies: [{ name: 'session', value: 'abc', domain: '.example.com' }]
+    });
+
+    expect(issues).toEqual([
+      '"isMobile" (false) conflicts with "viewport.isMobile" (true)',
+      '"cookies[0]" (session) has domain ".example.com" which does not match localhost, so the page would never receive it'
+    ]);
+    expect(() => serializeCaptureOptions({ url: 'not a url' })).toThrow(CaptureOptionsError);
+  });
+
+  it('surfaces fields the daemon does not support', async () => {
+    const http = axios.create();
+    vi.spyOn(http, 'post').mockResolvedValue({ data: { success: false, unsupportedOptions: ['geolocation'] } });
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, httpClient: http });
+    neuro.on('error', () => {});
+
+    const capture = neuro.capture('map', { url: 'http://localhost:3000/map', geolocation: { latitude: 0, longitude: 0 } });
+
+    await expect(capture).rejects.toBeInstanceOf(UnsupportedCaptureOptionError);
+    await expect(capture).rejects.toThrow('does not support these capture options: geolocation');
+  });
+});
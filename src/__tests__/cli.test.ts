@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { runCli, parseArgs, EXIT_CHANGES, EXIT_ERROR, EXIT_OK } from '../cli';
+import { EventEmitter } from 'events';
+import { NeuroSpec } from '../index';
+import type { ConfigResolutionOptions, NeuralDiffOptions } from '../types';
+
+const unchanged = { data: { phases: { static: { result: { probability: 0, confidence: 0.9, reasons: [] } } } } };
+const recolored = {
+  data: { phases: { static: { result: { probability: 0.8, confidence: 0.9, severity: 'minor', affectedPages: ['a.cta'], reasons: ['Button color changed'] } } } }
+};
+
+function setup(responses: Record<string, unknown> = {}, overrides: Partial<NeuralDiffOptions> = {}) {
+  const cwd = mkdtempSync(path.join(tmpdir(), 'neuraldiff-cli-'));
+  const out: string[] = [];
+  const err: string[] = [];
+  const resolutions: ConfigResolutionOptions[] = [];
+  const http = axios.create();
+  const post = vi.spyOn(http, 'post').mockImplementation(async (_endpoint: string, body: any) => responses[body?.name] ?? unchanged);
+
+  const run = (...argv: string[]) => runCli(argv, {
+    cwd,
+    env: {},
+    stdout: text => out.push(text),
+    stderr: text => err.push(text),
+    createClient: (options, resolution) => {
+      resolutions.push(resolution);
+      return NeuroSpec.fromConfig({ ...options, daemon: { autoConnect: false }, retry: false, httpClient: http, ...overrides }, resolution);
+    }
+  });
+
+  return { cwd, out, err, post, resolutions, run };
+}
+
+describe('neuraldiff CLI', () => {
+  it('parses commands, positionals and flags', () => {
+    expect(parseArgs(['compare', 'home', '--fail-on', 'high', '--json', '--report=out.xml', 'about'])).toEqual({
+      command: 'compare',
+      positionals: ['home', 'about'],
+      flags: { 'fail-on': 'high', json: true, report: 'out.xml' }
+    });
+  });
+
+  it('exits non-zero only when changes exceed the policy', async () => {
+    const cli = setup({ home: recolored });
+
+    expect(await cli.run('compare', 'home', 'about')).toBe(EXIT_CHANGES);
+    expect(cli.out.join('')).toContain('✗ home: Visual changes detected (80.0% probability)\n    [low] color a.cta: Button color changed');
+    expect(cli.out.join('')).toContain('✓ about: No visual changes detected');
+
+    expect(await cli.run('compare', 'home', '--fail-on', 'medium', '--json')).toBe(EXIT_OK);
+    expect(JSON.parse(cli.out[cli.out.length - 1]!)[0]).toMatchObject({ name: 'home', status: 'passed', failures: [] });
+  });
+
+  it('runs batches from a file and writes reports', async () => {
+    const cli = setup({ home: recolored });
+    writeFileSync(path.join(cli.cwd, 'ci.neuraldiff.json'), JSON.stringify({ project: 'web' }));
+    writeFileSync(path.join(cli.cwd, 'ops.json'), JSON.stringify({
+      failFast: false,
+      operations: [{ type: 'compare', name: 'home' }, { type: 'compare', name: 'about' }]
+    }));
+
+    expect(await cli.run('batch', 'ops.json', '--report', 'reports/visual.xml', '--config', 'ci.neuraldiff.json')).toBe(EXIT_CHANGES);
+    expect(cli.resolutions[0]).toMatchObject({ cwd: cli.cwd, configPath: 'ci.neuraldiff.json' });
+    expect(cli.post).toHaveBeenCalledTimes(2);
+    expect(readFileSync(path.join(cli.cwd, 'reports', 'visual.xml'), 'utf8')).toContain('tests="2" failures="1"');
+
+    expect(await cli.run('compare', 'home', '--report', 'visual.json')).toBe(EXIT_CHANGES);
+    expect(await cli.run('report', 'visual.json', '--out', 'visual.html', '--fail-on', 'high')).toBe(EXIT_OK);
+    expect(readFileSync(path.join(cli.cwd, 'visual.html'), 'utf8')).toContain('<!DOCTYPE html>');
+  });
+
+  it('approves and rolls back baselines', async () => {
+    const cli = setup();
+
+    expect(await cli.run('approve', '--tag', 'v2')).toBe(EXIT_OK);
+    expect(await cli.run('rollback', 'home', '--to', 'abc123')).toBe(EXIT_OK);
+    expect(cli.post.mock.calls.map(call => call[0])).toEqual(['/approve-all', '/baseline/home/rollback']);
+    expect(cli.out).toEqual(['✓ Approved all pending changes as v2\n', '✓ Rolled back home to abc123\n']);
+  });
+
+  it('reports usage and daemon errors with exit code 2', async () => {
+    const cli = setup();
+
+    expect(await cli.run('explode')).toBe(EXIT_ERROR);
+    expect(cli.err.join('')).toContain('Unknown command "explode"');
+    expect(await cli.run('compare', 'home', '--fail-on', 'severe')).toBe(EXIT_ERROR);
+    expect(await cli.run()).toBe(EXIT_ERROR);
+
+    cli.post.mockRejectedValueOnce(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }));
+    expect(await cli.run('compare', 'home')).toBe(EXIT_ERROR);
+    expect(cli.err.join('')).toContain('DAEMON_UNAVAILABLE');
+
+    expect(await cli.run('--version')).toBe(EXIT_OK);
+    expect(cli.out[cli.out.length - 1]).toBe('1.0.0\n');
+  });
+
+  it('exits with code 2 when watch loses the daemon', async () => {
+    const socket = Object.assign(new EventEmitter(), { readyState: 1, send: vi.fn(), close: vi.fn() });
+    const cli = setup({}, { createWatchSocket: () => socket, watchReconnect: false });
+
+    const exit = cli.run('watch', 'http://localhost:3000');
+    socket.emit('message', JSON.stringify({ type: 'change', path: '/', description: 'Header moved', hasChanges: true, timestamp: 1 }));
+    socket.emit('close');
+
+    expect(await exit).toBe(EXIT_ERROR);
+    expect(cli.out).toEqual(['✗ /: Header moved\n']);
+    expect(cli.err.join('')).toContain('Watch connection to ws://localhost:7878/ws closed');
+
+    const controller = new AbortController();
+    const stopped = runCli(['watch', 'http://localhost:3000'], {
+      cwd: cli.cwd,
+      env: {},
+      stdout: () => {},
+      signal: controller.signal,
+      createClient: options => new NeuroSpec({ ...options, apiKey: 'test-key', daemon: { autoConnect: false }, createWatchSocket: () => socket, watchReconnect: false })
+    });
+    controller.abort();
+    expect(await stopped).toBe(EXIT_OK);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import { mergeCompareOptions, filterIgnoredChanges } from '../comparison';
+import { NeuroSpec } from '../index';
+import type { SemanticChange } from '../types';
+
+function change(selector: string, coordinates?: SemanticChange['coordinates']): SemanticChange {
+  return { element: 'home', selector, change: 'color changed', severity: 'low', confidence: 0.9, type: 'color', ...(coordinates ? { coordinates } : {}) };
+}
+
+describe('comparison options', () => {
+  it('merges global defaults, ignore rules and per-call options', () => {
+    const merged = mergeCompareOptions(
+      { algorithm: 'fast', threshold: 0.05, ignoredRegions: [{ x: 0, y: 0, width: 100, height: 50 }], includeAntialiasing: true },
+      [{ selector: '.timestamp' }, { type: 'advertisement' }, { region: { x: 0, y: 600, width: 1280, height: 120 } }],
+      { threshold: 0.2, ignoredRegions: [{ x: 10, y: 10, width: 5, height: 5 }], ignoredSelectors: ['.clock', '.timestamp'] }
+    );
+
+    expect(merged).toEqual({
+      algorithm: 'fast',
+      threshold: 0.2,
+      includeAA: true,
+      includeAntialiasing: true,
+      ignoredRegions: [
+        { x: 0, y: 0, width: 100, height: 50 },
+        { x: 0, y: 600, width: 1280, height: 120 },
+        { x: 10, y: 10, width: 5, height: 5 }
+      ],
+      ignoredSelectors: ['.timestamp', '.clock'],
+      ignoredTypes: ['advertisement']
+    });
+  });
+
+  it('filters changes inside ignored regions or on ignored selectors', () => {
+    const changes = [
+      change('header', { x: 10, y: 10, width: 20, height: 10 }),
+      change('.timestamp'),
+      change('footer', { x: 90, y: 40, width: 30, height: 30 })
+    ];
+
+    const kept = filterIgnoredChanges(changes, {
+      ignoredRegions: [{ x: 0, y: 0, width: 100, height: 50 }],
+      ignoredSelectors: ['.timestamp']
+    });
+
+    expect(kept.map(c => c.selector)).toEqual(['footer']);
+  });
+
+  it('forwards options and recomputes hasChanges against the threshold', async () => {
+    const http = axios.create();
+    const post = vi.spyOn(http, 'post').mockResolvedValue({
+      data: { phases: { static: { result: { probability: 0.25, confidence: 0.9, reasons: ['Button color changed'] } } } }
+    });
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, comparison: { threshold: 0.3 }, httpClient: http });
+
+    const result = await neuro.compare('home', { algorithm: 'accurate', diffColor: '#ff00ff' });
+
+    expect(result.hasChanges).toBe(false);
+    expect(post).toHaveBeenCalledWith('/api/analyze/working-directory', {
+      name: 'home',
+      algorithm: 'accurate',
+      threshold: 0.3,
+      diffColor: '#ff00ff'
+    });
+  });
+
+  it('reports no changes when every change falls in an ignored region', async () => {
+    const http = axios.create();
+    vi.spyOn(http, 'post').mockResolvedValue({
+      data: {
+        phases: {
+          static: {
+            result: { probability: 0.9, reasons: ['Text changed'], regions: [{ x: 900, y: 20, width: 120, height: 20 }] }
+          }
+        }
+      }
+    });
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, ignore: [{ region: { x: 0, y: 0, width: 1280, height: 80 } }], httpClient: http });
+
+    const result = await neuro.compare('home');
+
+    expect(result.hasChanges).toBe(false);
+    expect(result.changes).toEqual([]);
+    expect(result.summary).toBe('No visual changes detected');
+  });
+
+  it('ignores changes on ignored selectors the daemon resolved, not on page names', async () => {
+    const http = axios.create();
+    const post = vi.spyOn(http, 'post').mockResolvedValue({
+      data: {
+        phases: {
+          static: {
+            result: {
+              probability: 0.9,
+              affectedPages: ['home'],
+              reasons: ['Banner image changed', 'Heading text changed', 'Footer moved'],
+              selectors: ['.ad-banner', 'main h1'],
+              regions: [{ x: 0, y: 0, width: 728, height: 90 }, { x: 20, y: 120, width: 400, height: 40 }]
+            }
+          }
+        }
+      }
+    });
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, ignore: [{ selector: '.ad-banner' }], httpClient: http });
+
+    const result = await neuro.compare('home', { ignoredSelectors: ['home'] });
+
+    expect(post.mock.calls[0]![1]).toMatchObject({ ignoredSelectors: ['.ad-banner', 'home'] });
+    expect(result.changes.map(c => [c.element, c.selector, c.change])).toEqual([
+      ['home', 'main h1', 'Heading text changed'],
+      ['home', undefined, 'Footer moved']
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveConfig, findConfigFile, loadConfigFile, ConfigValidationError } from '../config';
+import { NeuroSpec } from '../index';
+
+describe('config resolution', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'neuraldiff-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  function writeConfig(dir: string, config: unknown) {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, '.neuraldiff.json'), JSON.stringify(config));
+  }
+
+  it('finds the config file by walking up from cwd', () => {
+    writeConfig(root, { project: 'app' });
+    const nested = path.join(root, 'packages', 'web');
+    fs.mkdirSync(nested, { recursive: true });
+
+    expect(findConfigFile(nested)).toBe(path.join(root, '.neuraldiff.json'));
+  });
+
+  it('layers config file, environment and explicit options', () => {
+    writeConfig(root, {
+      project: 'app',
+      baseUrl: 'http://localhost:4000',
+      viewports: [{ name: 'mobile', width: 375, height: 667 }],
+      capture: { fullPage: true },
+      comparison: { threshold: 0.05, algorithm: 'fast' }
+    });
+
+    const options = resolveConfig(
+      { concurrency: 2, comparison: { threshold: 0.2 } },
+      {
+        cwd: root,
+        env: { NEURALDIFF_API_KEY: 'env-key', NEURALDIFF_API_URL: 'http://daemon:7878', NEURALDIFF_CONCURRENCY: '8' }
+      }
+    );
+
+    expect(options).toEqual({
+      apiKey: 'env-key',
+      apiUrl: 'http://daemon:7878',
+      concurrency: 2,
+      project: 'app',
+      baseUrl: 'http://localhost:4000',
+      viewports: [{ name: 'mobile', width: 375, height: 667 }],
+      capture: { fullPage: true },
+      comparison: { threshold: 0.2, algorithm: 'fast' }
+    });
+  });
+
+  it('reports every schema problem with its path', () => {
+    writeConfig(root, {
+      baseUrl: 'localhost',
+      viewports: [{ width: 0, height: 600 }],
+      ignore: [{ type: 'banner' }],
+      comparisn: {}
+    });
+
+    try {
+      loadConfigFile(path.join(root, '.neuraldiff.json'));
+      expect.fail('expected validation to fail');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      expect((error as ConfigValidationError).issues).toEqual([
+        '"comparisn" is not a recognised option (expected one of project, baseUrl, viewports, ignore, capture, comparison)',
+        '"baseUrl" must be an absolute URL, e.g. "http://localhost:3000"',
+        '"viewports[0].width" must be a positive number',
+        '"ignore[0].type" must be one of dynamic, animated, advertisement'
+      ]);
+    }
+  });
+
+  it('rejects malformed environment variables', () => {
+    expect(() => resolveConfig({}, { cwd: root, env: { NEURALDIFF_CONCURRENCY: 'lots' } }))
+      .toThrow('NEURALDIFF_CONCURRENCY must be a positive integer, got "lots"');
+  });
+
+  it('builds a NeuroSpec from the resolved config', () => {
+    writeConfig(root, { project: 'app' });
+
+    const neuro = NeuroSpec.fromConfig({}, { cwd: root, env: {} });
+
+    expect(neuro).toBeInstanceOf(NeuroSpec);
+  });
+});
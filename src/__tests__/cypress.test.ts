@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import { neuralDiffPlugin, CYPRESS_TASKS } from '../cypress';
+import { registerNeuralDiffCommands } from '../cypress-support';
+import type { CypressChainable, CypressCookie, CypressCy, CypressStatic } from '../cypress-support';
+import { NeuroSpec } from '../index';
+
+const captured = { data: { id: 'cap', success: true, hash: 'abc' } };
+const moved = {
+  data: { phases: { static: { result: { probability: 0.9, confidence: 0.9, severity: 'major', affectedPages: ['header'], reasons: ['Header position moved'] } } } }
+};
+
+// Promise-backed stand-in for Cypress chainables
+function chain<T>(value: T | Promise<T>): CypressChainable<T> & { promise: Promise<T> } {
+  const promise = Promise.resolve(value);
+  return {
+    promise,
+    then: (fn: (value: any) => any) => chain(promise.then(v => {
+      const next = fn(v);
+      return next && typeof next === 'object' && 'promise' in next ? next.promise : next;
+    }))
+  } as any;
+}
+
+const session: CypressCookie = { name: 'session', value: 'abc', domain: 'localhost', path: '/', secure: false, httpOnly: true, sameSite: 'lax' };
+
+function setup(respond: (endpoint: string) => Promise<unknown>, cookies = [session]) {
+  const http = axios.create();
+  const post = vi.spyOn(http, 'post').mockImplementation(respond);
+  const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, retry: false, httpClient: http });
+
+  // Node side
+  const handlers: Record<string, any> = {};
+  const config = { baseUrl: 'http://localhost:3000' };
+  const returned = neuralDiffPlugin((event, handler) => { handlers[event] = handler; }, config, { client: neuro });
+
+  // Browser side
+  const commands: Record<string, (...args: any[]) => any> = {};
+  const logs: any[] = [];
+  const Cypress: CypressStatic = {
+    Commands: { add: (name, fn) => { commands[name] = fn; } },
+    config: key => (key === 'viewportWidth' ? 1280 : 720),
+    log: options => logs.push(options)
+  };
+  const storage = { cart: '3' };
+  const win = {
+    localStorage: Object.assign(Object.create({ getItem: (key: string) => (storage as any)[key] ?? null }), storage),
+    devicePixelRatio: 2,
+    matchMedia: () => ({ matches: true })
+  };
+  const cy: CypressCy = {
+    url: () => chain('http://localhost:3000/cart'),
+    getCookies: () => chain(cookies),
+    window: () => chain(win as any),
+    task: (name, arg) => chain(handlers.task[name](arg))
+  };
+  registerNeuralDiffCommands(Cypress, cy);
+
+  return { post, handlers, config, returned, commands, logs };
+}
+
+describe('Cypress integration', () => {
+  it('registers Node tasks and returns the config', () => {
+    const { handlers, config, returned } = setup(async () => captured);
+
+    expect(returned).toBe(config);
+    expect(Object.keys(handlers.task)).toEqual([CYPRESS_TASKS.capture, CYPRESS_TASKS.compare, CYPRESS_TASKS.updateBaseline]);
+    expect(handlers['after:run']).toBeTypeOf('function');
+  });
+
+  it('sends the page URL, viewport, cookies and storage with cy.neuralCompare and logs the changes', async () => {
+    const { post, commands, logs } = setup(async endpoint => (endpoint.includes('capture') ? captured : moved));
+
+    const result = await commands.neuralCompare!('cart', { threshold: 0.2, capture: { fullPage: true } }).promise;
+
+    expect(result).toMatchObject({ name: 'cart', hasChanges: true });
+    expect(post.mock.calls[0]![1]).toMatchObject({
+      url: 'http://localhost:3000/cart',
+      viewport: { width: 1280, height: 720 },
+      fullPage: true,
+      colorScheme: 'dark',
+      deviceScaleFactor: 2,
+      cookies: [{ name: 'session', sameSite: 'Lax' }],
+      storageState: { origins: [{ origin: 'http://localhost:3000', localStorage: [{ name: 'cart', value: '3' }] }] }
+    });
+    expect(post.mock.calls[1]![1]).toMatchObject({ name: 'cart', threshold: 0.2 });
+    expect(logs[0]).toMatchObject({ name: 'neuralCompare', message: 'cart: Visual changes detected (90.0% probability)' });
+    expect(logs[0].consoleProps().changes).toEqual(['[medium] header: Header position moved']);
+  });
+
+  it('leaves out SameSite=None on cookies that are not secure', async () => {
+    const { post, commands } = setup(async () => captured, [
+      { ...session, sameSite: 'no_restriction' },
+      { ...session, name: 'tracking', secure: true, sameSite: 'no_restriction' }
+    ]);
+
+    expect(await commands.neuralCapture!('cart').promise).toMatchObject({ status: 'captured' });
+    expect(post.mock.calls[0]![1]).toHaveProperty('cookies', [
+      { name: 'session', value: 'abc', domain: 'localhost', path: '/', secure: false, httpOnly: true },
+      { name: 'tracking', value: 'abc', domain: 'localhost', path: '/', secure: true, httpOnly: true, sameSite: 'None' }
+    ]);
+  });
+
+  it('captures and updates baselines through tasks', async () => {
+    const { post, commands, logs } = setup(async endpoint => (endpoint.includes('capture') ? captured : { data: {} }));
+
+    expect(await commands.neuralCapture!('cart').promise).toMatchObject({ status: 'captured', hash: 'abc' });
+    expect(await commands.neuralUpdateBaseline!('cart').promise).toBeNull();
+    expect(post.mock.calls.map(call => call[0])).toEqual(['/api/screenshots/capture', '/baseline/cart/update']);
+    expect(logs.map(log => log.name)).toEqual(['neuralCapture', 'neuralUpdateBaseline']);
+  });
+});
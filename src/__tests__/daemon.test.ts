@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { daemonCandidates, discoverDaemon, DEFAULT_DAEMON_CANDIDATES } from '../daemon';
+import { ErrorType } from '../errors';
+import { NeuroSpec } from '../index';
+import type { DaemonInfo } from '../types';
+
+const healthy = { status: 'ok', version: '1.2.0', protocolVersion: 1, capabilities: ['capture', 'ai-analysis'] };
+const analyzed = { data: { phases: { static: { result: { probability: 0, reasons: [] } } } } };
+
+function refused(url: string) {
+  return Object.assign(new Error(`connect ECONNREFUSED ${url}`), { code: 'ECONNREFUSED' });
+}
+
+describe('daemon discovery', () => {
+  it('orders candidates: apiUrl, then the env override, then configured or default ports', () => {
+    expect(daemonCandidates({ apiUrl: 'http://daemon:9000' }, { NEURALDIFF_DAEMON_URL: 'http://env:1' })).toEqual(['http://daemon:9000']);
+    expect(daemonCandidates({ daemon: { candidates: ['http://a'] } }, { NEURALDIFF_DAEMON_URL: 'http://env:1' })).toEqual(['http://env:1']);
+    expect(daemonCandidates({ daemon: { candidates: ['http://a'] } }, {})).toEqual(['http://a']);
+    expect(daemonCandidates({}, {})).toEqual(DEFAULT_DAEMON_CANDIDATES);
+  });
+
+  it('falls back to the next candidate and reports every URL it tried', async () => {
+    const probe = vi.fn(async (url: string) => {
+      if (url.endsWith('7878')) throw refused(url);
+      return healthy;
+    });
+
+    const info = await discoverDaemon(['http://localhost:7878', 'http://localhost:7879/'], probe);
+    expect(info).toMatchObject({ url: 'http://localhost:7879', version: '1.2.0', compatible: true, capabilities: ['capture', 'ai-analysis'] });
+
+    await expect(discoverDaemon(['http://localhost:7878'], probe)).rejects.toMatchObject({
+      type: ErrorType.DAEMON_UNAVAILABLE,
+      message: expect.stringContaining('http://localhost:7878')
+    });
+  });
+
+  it('refuses an incompatible daemon unless configured to warn', async () => {
+    const strictHttp = axios.create();
+    vi.spyOn(strictHttp, 'get').mockResolvedValue({ data: { ...healthy, protocolVersion: 2 } });
+    const strict = new NeuroSpec({ apiKey: 'test-key', apiUrl: 'http://localhost:7878', httpClient: strictHttp });
+    await expect(strict.connect()).rejects.toMatchObject({ type: ErrorType.DAEMON_INCOMPATIBLE, retryable: false });
+
+    const lenientHttp = axios.create();
+    vi.spyOn(lenientHttp, 'get').mockResolvedValue({ data: { ...healthy, minSdkVersion: '2.0.0' } });
+    const lenient = new NeuroSpec({ apiKey: 'test-key', apiUrl: 'http://localhost:7878', daemon: { onIncompatible: 'warn' }, httpClient: lenientHttp });
+    const warnings: string[] = [];
+    lenient.on('daemon:warning', ({ message }) => warnings.push(message));
+
+    await expect(lenient.connect()).resolves.toMatchObject({ compatible: false });
+    expect(warnings).toEqual(['The daemon requires SDK 2.0.0 or newer (this is 1.0.0)']);
+  });
+
+  it('connects lazily before the first request and uses the discovered daemon', async () => {
+    const http = axios.create();
+    const get = vi.spyOn(http, 'get').mockImplementation(async (url: string) => {
+      if (url.startsWith('http://localhost:7878')) throw refused(url);
+      return { data: healthy };
+    });
+    vi.spyOn(http, 'post').mockResolvedValue(analyzed);
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { candidates: ['http://localhost:7878', 'http://localhost:7879'] }, httpClient: http });
+    const connected: DaemonInfo[] = [];
+    neuro.on('daemon:connected', info => connected.push(info));
+
+    await neuro.compare('home');
+    await neuro.compare('about');
+
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(http.defaults.baseURL).toBe('http://localhost:7879');
+    expect(connected.map(info => info.url)).toEqual(['http://localhost:7879']);
+    expect((await neuro.health()).version).toBe('1.2.0');
+  });
+
+  it('sends the real SDK version', async () => {
+    const adapter = vi.fn(async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => ({ ...analyzed, status: 200, statusText: 'OK', headers: {}, config }));
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, httpClient: axios.create({ adapter }) });
+
+    await neuro.compare('home');
+
+    const { baseURL, headers } = adapter.mock.calls[0]![0];
+    expect(baseURL).toBe('http://localhost:7878');
+    expect(headers['X-SDK-Version']).toBe('1.0.0');
+    expect(headers['User-Agent']).toBe('neuraldiff-sdk/1.0.0');
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import axios from 'axios';
+import { ErrorType, NeuralDiffError, isMissingBaselineError, mapHttpStatusToErrorType, toNeuralDiffError } from '../errors';
+import { SDKErrorHandler, SDKErrorReporter } from '../error-handling';
+import { CaptureOptionsError } from '../capture-options';
+import { NeuroSpec } from '../index';
+
+function axiosError(status: number | undefined, message: string, code?: string) {
+  return Object.assign(new Error(message), {
+    isAxiosError: true,
+    ...(code ? { code } : {}),
+    ...(status ? { response: { status, data: { message: `daemon: ${message}` } } } : {})
+  });
+}
+
+describe('NeuralDiffError', () => {
+  it('maps HTTP statuses and connection failures to error types', () => {
+    expect(mapHttpStatusToErrorType(401)).toBe(ErrorType.AUTH_FAILED);
+    expect(mapHttpStatusToErrorType(503)).toBe(ErrorType.DAEMON_UNAVAILABLE);
+    expect(mapHttpStatusToErrorType(418)).toBe(ErrorType.NETWORK_ERROR);
+
+    const http = toNeuralDiffError(axiosError(429, 'slow down'));
+    expect(http).toMatchObject({ type: ErrorType.INSUFFICIENT_RESOURCES, statusCode: 429, message: 'daemon: slow down', retryable: true });
+
+    const wrongRoute = toNeuralDiffError(axiosError(404, 'Cannot POST /analyze'));
+    expect(wrongRoute.type).toBe(ErrorType.INVALID_URL);
+    expect(isMissingBaselineError(wrongRoute)).toBe(false);
+
+    const noBaseline = toNeuralDiffError(Object.assign(new Error('Not found'), {
+      response: { status: 404, data: { code: 'BASELINE_NOT_FOUND', message: 'No baseline for "home"' } }
+    }));
+    expect(noBaseline).toMatchObject({ type: ErrorType.BASELINE_NOT_FOUND, statusCode: 404, message: 'No baseline for "home"' });
+    expect(isMissingBaselineError(noBaseline)).toBe(true);
+
+    const refused = toNeuralDiffError(axiosError(undefined, 'connect ECONNREFUSED', 'ECONNREFUSED'));
+    expect(refused.type).toBe(ErrorType.DAEMON_UNAVAILABLE);
+    expect(refused.recommendations[0]).toBe('Make sure the NeuralDiff daemon is running');
+
+    const local = toNeuralDiffError(new TypeError('bad png'), {}, ErrorType.COMPARISON_FAILED);
+    expect(local).toMatchObject({ type: ErrorType.COMPARISON_FAILED, message: 'bad png' });
+    expect(local.cause).toBeInstanceOf(TypeError);
+  });
+
+  it('is the base of the SDK validation errors', () => {
+    const error = new CaptureOptionsError(['"url" is required']);
+    expect(error).toBeInstanceOf(NeuralDiffError);
+    expect(error).toMatchObject({ name: 'CaptureOptionsError', type: ErrorType.INVALID_INPUT, retryable: false });
+    expect(toNeuralDiffError(error)).toBe(error);
+  });
+
+  it('is what NeuroSpec calls reject with', async () => {
+    const http = axios.create();
+    vi.spyOn(http, 'post').mockRejectedValue(axiosError(401, 'invalid key'));
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, httpClient: http });
+    const onError = vi.fn();
+    neuro.on('error', onError);
+
+    const error = await neuro.capture('home', { url: 'http://localhost:3000' }).catch(e => e);
+    expect(error).toBeInstanceOf(NeuralDiffError);
+    expect(error).toMatchObject({ type: ErrorType.AUTH_FAILED, statusCode: 401, context: { operation: 'capture' } });
+    expect(error.userMessage).toBe('NeuralDiff could not authenticate the request.');
+    expect(onError).toHaveBeenCalledWith({ operation: 'capture', name: 'home', error });
+
+    await expect(neuro.approveAll()).rejects.toMatchObject({ type: ErrorType.AUTH_FAILED });
+  });
+});
+
+describe('SDKErrorReporter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('reports unrecoverable errors with recommendations', async () => {
+    const onError = vi.fn();
+    const reporter = new SDKErrorReporter({ onError });
+
+    const response = await reporter.reportAndHandle(axiosError(403, 'forbidden'));
+
+    expect(response.success).toBe(false);
+    expect(onError).toHaveBeenCalledWith(response.error);
+    expect(response.error?.type).toBe(ErrorType.PERMISSION_DENIED);
+  });
+
+  it('retries the failed operation on a retryable network error', async () => {
+    const operation = vi.fn().mockResolvedValue({ id: 'cap' });
+    const reporter = new SDKErrorReporter();
+
+    const recovered = await reporter.reportAndHandle(axiosError(undefined, 'socket hang up', 'ECONNRESET'), {}, operation);
+    expect(recovered).toMatchObject({ success: true, data: { id: 'cap' } });
+    expect(recovered.warning).toContain(ErrorType.NETWORK_ERROR);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    const unrecovered = await reporter.reportAndHandle(axiosError(undefined, 'socket hang up', 'ECONNRESET'));
+    expect(unrecovered).toMatchObject({ success: false, error: { type: ErrorType.NETWORK_ERROR } });
+  });
+
+  it('falls back to the next daemon candidate when the daemon is unavailable', async () => {
+    const get = vi.spyOn(axios, 'get')
+      .mockRejectedValueOnce(new Error('refused'))
+      .mockResolvedValueOnce({ data: { status: 'ok', version: '1.0.0', protocolVersion: 1 } });
+
+    const response = await new SDKErrorHandler({ daemon: { candidates: ['http://localhost:9000', 'http://localhost:9001'] } })
+      .handleDaemonConnectionError(new Error('connect ECONNREFUSED'), { daemonUrl: 'http://localhost:9000', operation: 'capture' });
+
+    expect(get.mock.calls.map(call => call[0])).toEqual(['http://localhost:9000/health', 'http://localhost:9001/health']);
+    expect(response).toMatchObject({ success: true, data: { daemonUrl: 'http://localhost:9001' } });
+    expect(response.warning).toContain(ErrorType.DAEMON_UNAVAILABLE);
+  });
+
+  it('tries NEURALDIFF_DAEMON_URL before the default ports', async () => {
+    vi.stubEnv('NEURALDIFF_DAEMON_URL', 'http://daemon.test:7000');
+    const get = vi.spyOn(axios, 'get').mockResolvedValue({ data: { status: 'ok', version: '1.0.0', protocolVersion: 1 } });
+
+    const response = await new SDKErrorHandler().handleDaemonConnectionError(new Error('connect ECONNREFUSED'), {
+      daemonUrl: 'http://localhost:7878',
+      operation: 'capture'
+    });
+
+    expect(get).toHaveBeenCalledWith('http://daemon.test:7000/health', { timeout: 2000 });
+    expect(response).toMatchObject({ success: true, data: { daemonUrl: 'http://daemon.test:7000' } });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import { NeuroSpec } from '../index';
+import type { BatchProgressEvent } from '../types';
+
+function createNeuro() {
+  const http = axios.create();
+  const post = vi.spyOn(http, 'post').mockImplementation(async (endpoint: string) => ({
+    data: endpoint.includes('capture')
+      ? { id: 'cap-1', success: true, hash: 'abc' }
+      : { phases: { static: { result: { probability: 0.5, reasons: [] } } } }
+  }));
+  return { neuro: new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, baseUrl: 'http://localhost:3000', httpClient: http }), post };
+}
+
+describe('NeuroSpec events', () => {
+  it('reports capture and compare lifecycles', async () => {
+    const { neuro } = createNeuro();
+    const seen: string[] = [];
+    neuro.on('capture:start', ({ name, url }) => seen.push(`capture:start ${name} ${url}`));
+    neuro.on('capture:done', ({ result }) => seen.push(`capture:done ${result.hash}`));
+    neuro.on('compare:start', ({ name }) => seen.push(`compare:start ${name}`));
+    neuro.once('compare:done', ({ result }) => seen.push(`compare:done ${result.hasChanges}`));
+
+    await neuro.capture('home', { url: '/pricing' });
+    await neuro.compare('home');
+    await neuro.compare('home');
+
+    expect(seen).toEqual([
+      'capture:start home http://localhost:3000/pricing',
+      'capture:done abc',
+      'compare:start home',
+      'compare:done true',
+      'compare:start home'
+    ]);
+  });
+
+  it('reports batch progress per finished operation', async () => {
+    const { neuro } = createNeuro();
+    const progress: BatchProgressEvent[] = [];
+    const listener = (event: BatchProgressEvent) => progress.push(event);
+    neuro.on('batch:progress', listener);
+
+    await neuro.batch([
+      { type: 'capture', name: 'home' },
+      { type: 'compare', name: 'about' }
+    ]);
+    neuro.off('batch:progress', listener);
+    await neuro.batch([{ type: 'capture', name: 'home' }]);
+
+    expect(progress.map(e => [e.completed, e.total, e.operation.name, e.result.status])).toEqual([
+      [1, 2, 'home', 'success'],
+      [2, 2, 'about', 'success']
+    ]);
+  });
+
+  it('reports failures through the error event', async () => {
+    const { neuro, post } = createNeuro();
+    post.mockRejectedValue(new Error('daemon down'));
+    const onError = vi.fn();
+    neuro.on('error', onError);
+
+    await expect(neuro.compare('home')).rejects.toThrow('daemon down');
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ operation: 'compare', name: 'home' }));
+  });
+});
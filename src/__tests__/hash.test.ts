@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import { decodePNG, encodePNG } from '../png';
+import { perceptualHash, hammingDistance, hashSimilarity } from '../hash';
+import { NeuroSpec } from '../index';
+import type { RawImage } from '../types';
+
+function gradient(width: number, height: number, shift = 0): RawImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = Math.min(255, Math.round(((x + y) / (width + height)) * 255) + shift);
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+function checkerboard(width: number, height: number, cell: number): RawImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = (Math.floor(x / cell) + Math.floor(y / cell)) % 2 ? 255 : 0;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+describe('perceptual hashing', () => {
+  it('round-trips RGBA pixels through the PNG codec', () => {
+    const image = gradient(17, 9);
+    expect(decodePNG(encodePNG(image))).toEqual(image);
+  });
+
+  it.each(['average', 'perceptual', 'difference', 'wavelet'] as const)('%s hash tolerates small brightness changes', algorithm => {
+    const a = perceptualHash(encodePNG(gradient(64, 64)), { algorithm });
+    const b = perceptualHash(gradient(64, 64, 3), { algorithm });
+    const c = perceptualHash(checkerboard(64, 64, 8), { algorithm });
+
+    expect(a).toHaveLength(16);
+    expect(hammingDistance(a, b)).toBeLessThanOrEqual(4);
+    expect(hammingDistance(a, c)).toBeGreaterThan(8);
+  });
+
+  it('scales with hashSize and reports similarity', () => {
+    const hash = perceptualHash(gradient(64, 64), { algorithm: 'average', hashSize: 16 });
+
+    expect(hash).toHaveLength(64);
+    expect(hashSimilarity(hash, hash)).toBe(1);
+    expect(() => hammingDistance(hash, 'ff')).toThrow('different sizes');
+  });
+
+  it('lets compare() short-circuit without the daemon when hashes match', async () => {
+    const http = axios.create();
+    const post = vi.spyOn(http, 'post');
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, httpClient: http });
+
+    const result = await neuro.compare('home', {
+      baselineImage: encodePNG(gradient(32, 32)),
+      currentImage: encodePNG(gradient(32, 32)),
+      hash: { algorithm: 'difference' }
+    });
+
+    expect(post).not.toHaveBeenCalled();
+    expect(result.hasChanges).toBe(false);
+    expect(result.metadata?.perceptualHash).toMatchObject({ algorithm: 'difference', distance: 0 });
+  });
+
+  it('runs the pixel diff unless the hash check is enabled', async () => {
+    const http = axios.create();
+    const post = vi.spyOn(http, 'post');
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, httpClient: http });
+
+    const result = await neuro.compare('home', { baselineImage: encodePNG(gradient(32, 32)), currentImage: encodePNG(gradient(32, 32)) });
+
+    expect(result.metadata?.perceptualHash).toBeUndefined();
+    expect(result.metadata?.pixelDiff).toMatchObject({ changedPixels: 0 });
+
+    const hashed = await neuro.compare('home', { baselineImage: encodePNG(gradient(32, 32)), currentImage: encodePNG(gradient(32, 32)), hash: true });
+    expect(hashed.metadata?.pixelDiff).toBeUndefined();
+    expect(post).not.toHaveBeenCalled();
+  });
+});
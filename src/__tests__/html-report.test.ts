@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { loadJsonReport, renderHtmlReport, writeHtmlReport } from '../html-report';
+import { writeReport } from '../reports';
+import { encodePNG } from '../png';
+import { ErrorType } from '../errors';
+import type { ComparisonResult } from '../types';
+
+const pixel = encodePNG({ width: 1, height: 1, data: Buffer.from([255, 0, 0, 255]) });
+
+function workspace() {
+  const dir = mkdtempSync(path.join(tmpdir(), 'neuraldiff-html-'));
+  mkdirSync(path.join(dir, 'shots'));
+  writeFileSync(path.join(dir, 'shots', 'home-baseline.png'), pixel);
+  writeFileSync(path.join(dir, 'shots', 'home-current.png'), pixel);
+  return dir;
+}
+
+const home: ComparisonResult = {
+  name: 'home',
+  hasChanges: true,
+  duration: 800,
+  summary: 'Header moved',
+  changes: [
+    { element: 'header', change: 'Moved <12px> down', severity: 'high', confidence: 0.9, type: 'position', coordinates: { x: 0, y: 12, width: 1280, height: 80 } },
+    { element: 'a.cta', change: 'Color changed', severity: 'low', confidence: 0.6, type: 'color' }
+  ],
+  confidence: 0.9,
+  baseline: 'shots/home-baseline.png',
+  current: 'shots/home-current.png',
+  diff: `data:image/png;base64,${pixel.toString('base64')}`
+};
+
+describe('HTML review report', () => {
+  it('inlines screenshots and renders every view, badge, region and filter', async () => {
+    const html = await renderHtmlReport([home], { baseDir: workspace(), title: 'Release review' });
+
+    expect(html).toContain('<title>Release review</title>');
+    expect(html).not.toContain('shots/home-current.png');
+    expect(html.match(/src="data:image\/png;base64,/g)).toHaveLength(7);
+    for (const view of ['side', 'swipe', 'overlay', 'diff']) {
+      expect(html).toContain(`<button type="button" data-view="${view}">`);
+    }
+    expect(html).toContain('<span class="badge severity-high">high</span>');
+    expect(html).toContain('data-x="0" data-y="12" data-width="1280" data-height="80"');
+    expect(html).toContain('Moved &lt;12px&gt; down');
+    expect(html).toContain('data-filter="type" value="color"');
+    expect(html).toContain('data-filter="type" value="position"');
+  });
+
+  it('links screenshots relative to the output when not inlining', async () => {
+    const dir = workspace();
+    const file = path.join(dir, 'reports', 'review.html');
+
+    await writeHtmlReport(file, [home], { baseDir: dir, inlineImages: false });
+
+    expect(readFileSync(file, 'utf8')).toContain('src="../shots/home-current.png"');
+  });
+
+  it('renders from a saved JSON report without the daemon', async () => {
+    const dir = workspace();
+    const json = path.join(dir, 'visual.json');
+    await writeReport(json, 'json', [home], { suiteName: 'nightly' });
+
+    const html = await renderHtmlReport(await loadJsonReport(json), { baseDir: dir });
+
+    expect(html).toContain('nightly');
+    expect(html).toContain('<span class="badge status-failed">failed</span> home');
+
+    writeFileSync(json, JSON.stringify({ results: [] }));
+    await expect(loadJsonReport(json)).rejects.toMatchObject({ type: ErrorType.INVALID_INPUT });
+  });
+
+  it('renders a partial report with the missing fields left empty', async () => {
+    const dir = workspace();
+    const json = path.join(dir, 'visual.json');
+    writeFileSync(json, JSON.stringify({
+      schemaVersion: 1,
+      results: [
+        { name: 'home', status: 'failed', changes: [{ element: 'header', type: 'layout', severity: 'high' }, null] },
+        { status: 'passed' },
+        null
+      ]
+    }));
+
+    const html = await renderHtmlReport(await loadJsonReport(json), { baseDir: dir });
+
+    expect(html).not.toContain('undefined');
+    expect(html).toContain('<span class="status-failed">0 failed</span>');
+    expect(html).toContain('<code>header</code>  <span class="confidence">0%</span>');
+    expect(html).toContain('<span class="badge status-passed">passed</span> </h2>');
+  });
+
+  it('escapes every value of a tampered report', async () => {
+    const dir = workspace();
+    const json = path.join(dir, 'visual.json');
+    await writeReport(json, 'json', [home]);
+    const report = await loadJsonReport(json);
+    const entry = report.results[0]! as any;
+    entry.status = '"><script>alert(1)</script>';
+    entry.changes[0] = { ...entry.changes[0], type: '"><img src=x onerror=alert(2)>', severity: '<b>', coordinates: { x: '1" onmouseover="alert(3)', y: 12, width: 1280, height: 80 } };
+
+    const html = await renderHtmlReport(report, { baseDir: dir });
+
+    expect(html).not.toMatch(/<script>alert|<img src=x|<b>|onmouseover="/);
+    expect(html).toContain('data-status="&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;"');
+    expect(html).toContain('data-x="0" data-y="12"');
+  });
+});
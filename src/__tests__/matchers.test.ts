@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import { createVisualMatchers } from '../matchers';
+import { NeuroSpec } from '../index';
+import type { VisualBaselineMatchers } from '../types';
+
+declare module 'vitest' {
+  interface Assertion<T = any> extends VisualBaselineMatchers<Promise<T>> {}
+}
+
+const captured = { data: { id: 'cap', success: true, hash: 'abc' } };
+const unchanged = { data: { phases: { static: { result: { probability: 0, reasons: [] } } } } };
+const moved = {
+  data: { phases: { static: { result: { probability: 0.9, confidence: 0.95, severity: 'breaking', affectedPages: ['header'], reasons: ['Header position moved'], regions: [{ x: 0, y: 12, width: 1280, height: 80 }] } } } }
+};
+
+function notFound() {
+  return Object.assign(new Error('No baseline'), { isAxiosError: true, response: { status: 404, headers: {}, data: { code: 'BASELINE_NOT_FOUND', message: 'No baseline for "home"' } } });
+}
+
+function createNeuro(compare: () => Promise<unknown>) {
+  const http = axios.create();
+  const post = vi.spyOn(http, 'post').mockImplementation(async (endpoint: string) => {
+    if (endpoint.includes('capture')) return captured;
+    if (endpoint.includes('update')) return { data: {} };
+    return compare();
+  });
+  const neuro = new NeuroSpec({ apiKey: 'test-key', baseUrl: 'http://localhost:3000', daemon: { autoConnect: false }, retry: false, httpClient: http });
+  return { neuro, post };
+}
+
+function endpoints(post: ReturnType<typeof createNeuro>['post']) {
+  return post.mock.calls.map(call => call[0]);
+}
+
+describe('toMatchVisualBaseline', () => {
+  it('passes when nothing changed and works with expect.extend', async () => {
+    const { neuro, post } = createNeuro(async () => unchanged);
+    expect.extend(createVisualMatchers(neuro, { update: false }));
+
+    await expect('/pricing').toMatchVisualBaseline('pricing', { threshold: 0.2, capture: { fullPage: true } });
+    await expect({ url: () => 'http://localhost:3000/' }).toMatchVisualBaseline('home');
+
+    expect(endpoints(post)).toEqual(['/api/screenshots/capture', '/api/analyze/working-directory', '/api/screenshots/capture', '/api/analyze/working-directory']);
+    expect(post.mock.calls[0]![1]).toMatchObject({ url: 'http://localhost:3000/pricing', fullPage: true });
+    expect(post.mock.calls[1]![1]).toMatchObject({ name: 'pricing', threshold: 0.2 });
+  });
+
+  it('lists the semantic changes in the failure message', async () => {
+    const { neuro } = createNeuro(async () => moved);
+    const { toMatchVisualBaseline } = createVisualMatchers(neuro, { update: false });
+
+    const result = await toMatchVisualBaseline.call({}, '/', 'home');
+
+    expect(result.pass).toBe(false);
+    expect(result.message()).toContain('Visual changes detected (90.0% probability)');
+    expect(result.message()).toContain('[high] layout header: Header position moved at 0,12 1280x80');
+  });
+
+  it('creates missing baselines unless the runner is in CI mode', async () => {
+    const { neuro, post } = createNeuro(async () => { throw notFound(); });
+    const { toMatchVisualBaseline } = createVisualMatchers(neuro, { update: false });
+
+    const created = await toMatchVisualBaseline.call({ snapshotState: { _updateSnapshot: 'new' } }, '/', 'home');
+    expect(created).toMatchObject({ pass: true });
+    expect(endpoints(post)).toContain('/baseline/home/update');
+
+    const ci = await toMatchVisualBaseline.call({ snapshotState: { _updateSnapshot: 'none' } }, '/', 'home');
+    expect(ci.pass).toBe(false);
+    expect(ci.message()).toContain('No visual baseline "home" exists');
+  });
+
+  it('updates baselines with the runner update flag instead of comparing', async () => {
+    const { neuro, post } = createNeuro(async () => moved);
+    const { toMatchVisualBaseline } = createVisualMatchers(() => neuro);
+
+    const result = await toMatchVisualBaseline.call({ snapshotState: { _updateSnapshot: 'all' } }, '/', 'home');
+
+    expect(result.pass).toBe(true);
+    expect(endpoints(post)).toEqual(['/api/screenshots/capture', '/baseline/home/update']);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import { expandMatrix } from '../matrix';
+import { NeuroSpec } from '../index';
+
+describe('capture matrix', () => {
+  const mobile = { name: 'mobile', width: 375, height: 667 };
+  const desktop = { name: 'desktop', width: 1280, height: 720 };
+
+  it('expands axes into deterministic variant names', () => {
+    const variants = expandMatrix('home', {
+      viewports: [mobile, desktop],
+      colorSchemes: ['light', 'dark'],
+      locales: ['de-DE']
+    });
+
+    expect(variants.map(v => v.name)).toEqual([
+      'home@mobile.light.de-DE',
+      'home@mobile.dark.de-DE',
+      'home@desktop.light.de-DE',
+      'home@desktop.dark.de-DE'
+    ]);
+    expect(variants[1]?.options).toEqual({ viewport: mobile, colorScheme: 'dark', locale: 'de-DE' });
+  });
+
+  it('labels unnamed viewports, timezones and motion settings', () => {
+    const variants = expandMatrix('page', {
+      viewports: [{ width: 800, height: 600 }],
+      timezoneIds: ['Europe/Berlin'],
+      reducedMotion: ['reduce'],
+      forcedColors: ['active']
+    });
+
+    expect(variants.map(v => v.name)).toEqual(['page@800x600.Europe-Berlin.reduced-motion.forced-colors']);
+  });
+
+  it('falls back to configured viewports and rejects duplicate names', () => {
+    expect(expandMatrix('home', {}, [mobile]).map(v => v.name)).toEqual(['home@mobile']);
+    expect(() => expandMatrix('home', { viewports: [mobile, mobile] })).toThrow('duplicate variant "home@mobile"');
+  });
+
+  it('captures each variant and groups results by variant name', async () => {
+    const http = axios.create();
+    const post = vi.spyOn(http, 'post').mockResolvedValue({ data: { success: true, hash: 'abc' } });
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, viewports: [mobile], httpClient: http });
+
+    const result = await neuro.captureMatrix('home', { colorSchemes: ['light', 'dark'], capture: { url: 'http://localhost:3000' } });
+
+    expect(Object.keys(result.results)).toEqual(['home@mobile.light', 'home@mobile.dark']);
+    expect(result.results['home@mobile.dark']?.status).toBe('captured');
+    expect(post).toHaveBeenCalledWith('/api/screenshots/capture', expect.objectContaining({
+      colorScheme: 'dark',
+      viewport: mobile,
+      metadata: { name: 'home@mobile.dark' }
+    }));
+  });
+});
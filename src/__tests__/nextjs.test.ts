@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { captureAllRoutes, detectAuthRequirement, discoverRoutes, expandRoutes, extractMiddleware, fillRoute } from '../nextjs';
+import { NeuroSpec } from '../index';
+
+function project(files: Record<string, string>): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'neuraldiff-next-'));
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    writeFileSync(path.join(dir, file), content);
+  }
+  return dir;
+}
+
+const files = {
+  'pages/index.tsx': 'export default function Home() {}',
+  'pages/about.tsx': 'export default function About() {}',
+  'pages/blog/[slug].tsx': 'export default function BlogPost() {}',
+  'pages/api/users.ts': 'export default function handler() {}',
+  'pages/_app.tsx': 'export default function App() {}',
+  'pages/account.tsx': "import { getServerSession } from 'next-auth';\nexport default function Account() {}",
+  'app/(marketing)/pricing/page.tsx': 'export default function Pricing() {}',
+  'app/dashboard/page.tsx': 'export default function Dashboard() {}',
+  'app/dashboard/layout.tsx': 'export default function Layout() {}',
+  'app/dashboard/@stats/page.tsx': 'export default function Stats() {}',
+  'app/dashboard/settings/page.tsx': 'export default function Settings() {}',
+  'app/docs/[[...slug]]/page.tsx': 'export default function Docs() {}',
+  'middleware.ts': `
+    import { withAuth } from 'next-auth/middleware';
+    export default withAuth(function middleware(request) {});
+    export const config = { matcher: ['/dashboard/:path*', '/admin/:path*'] };
+  `,
+  '.next/prerender-manifest.json': JSON.stringify({
+    version: 4,
+    routes: {
+      '/blog/hello-world': { srcRoute: '/blog/[slug]' },
+      '/blog/second-post': { srcRoute: '/blog/[slug]' },
+      '/about': { srcRoute: null }
+    }
+  })
+};
+
+describe('Next.js integration', () => {
+  it('discovers pages/ and app/ routes and flags protected ones', async () => {
+    const routes = await discoverRoutes({ projectDir: project(files) });
+
+    expect(routes.map(route => [route.path, route.router, route.authRequired])).toEqual([
+      ['/', 'pages', false],
+      ['/about', 'pages', false],
+      ['/account', 'pages', true],
+      ['/blog/[slug]', 'pages', false],
+      ['/dashboard', 'app', true],
+      ['/dashboard/settings', 'app', true],
+      ['/docs/[[...slug]]', 'app', false],
+      ['/pricing', 'app', false]
+    ]);
+    expect(routes.find(route => route.path === '/pricing')!.file).toBe('app/(marketing)/pricing/page.tsx');
+  });
+
+  it('reads middleware matchers', async () => {
+    const middleware = await extractMiddleware(project(files));
+
+    expect(middleware).toEqual({ file: 'middleware.ts', auth: true, matcher: ['/dashboard/:path*', '/admin/:path*'] });
+    expect(detectAuthRequirement('/admin', middleware)).toBe(true);
+    expect(detectAuthRequirement('/dashboard/[id]/edit', middleware)).toBe(true);
+    expect(detectAuthRequirement('/profile', middleware)).toBe(false);
+    expect(detectAuthRequirement('/profile', { file: 'middleware.ts', auth: true, matcher: [] })).toBe(true);
+    expect(await extractMiddleware(project({}))).toBeNull();
+  });
+
+  it('expands dynamic routes from params or prerendered paths', async () => {
+    const projectDir = project(files);
+    const routes = await discoverRoutes({ projectDir });
+
+    const { paths, unresolved } = await expandRoutes(routes, { projectDir, params: { '/docs/[[...slug]]': [{ slug: [] }, { slug: ['api', 'capture'] }] } });
+
+    expect(paths.map(entry => entry.path)).toEqual([
+      '/', '/about', '/account', '/blog/hello-world', '/blog/second-post', '/dashboard', '/dashboard/settings', '/docs', '/docs/api/capture', '/pricing'
+    ]);
+    expect(unresolved).toEqual([]);
+    expect(fillRoute('/shop/[category]/[...rest]', { category: 'shoes & bags', rest: ['a', 'b'] })).toBe('/shop/shoes%20%26%20bags/a/b');
+    expect(() => fillRoute('/blog/[slug]', {})).toThrow(/missing "slug"/);
+  });
+
+  it('captures routes through batch(), skipping protected routes without auth in route order', async () => {
+    const http = axios.create();
+    const post = vi.spyOn(http, 'post').mockImplementation(async (endpoint: string) => (endpoint.includes('capture')
+      ? { data: { id: 'cap', success: true, hash: 'abc' } }
+      : { data: { phases: { static: { result: { probability: 0, reasons: [] } } } } }));
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, retry: false, httpClient: http });
+    const projectDir = project(files);
+
+    const results = await captureAllRoutes(neuro, 'http://localhost:3000', { projectDir, router: 'pages', mode: 'capture' });
+
+    expect(results.map(result => [result.name, result.status])).toEqual([
+      ['index', 'success'],
+      ['about', 'success'],
+      ['account', 'skipped'],
+      ['blog-hello-world', 'success'],
+      ['blog-second-post', 'success']
+    ]);
+    expect(results[2]!.error).toContain('Skipping protected route /account');
+    expect(post).toHaveBeenCalledWith('/api/screenshots/capture', expect.objectContaining({ url: 'http://localhost:3000/blog/hello-world' }));
+
+    const app = await captureAllRoutes(neuro, 'http://localhost:3000', { projectDir, router: 'app', mode: 'capture' });
+    expect(app.map(result => [result.name, result.status])).toEqual([
+      ['dashboard', 'skipped'],
+      ['dashboard-settings', 'skipped'],
+      ['docs-[[...slug]]', 'skipped'],
+      ['pricing', 'success']
+    ]);
+    expect(app[2]!.error).toContain('No params for dynamic route /docs/[[...slug]]');
+
+    post.mockClear();
+    const withAuth = await captureAllRoutes(neuro, 'http://localhost:3000/', {
+      projectDir,
+      filter: route => route.authRequired,
+      auth: { cookies: [{ name: 'session', value: 'abc123' }] }
+    });
+
+    expect(withAuth.map(result => [result.name, result.status])).toEqual([
+      ['account', 'success'],
+      ['dashboard', 'success'],
+      ['dashboard-settings', 'success']
+    ]);
+    expect(post.mock.calls[0]![1]).toMatchObject({ url: 'http://localhost:3000/account', cookies: [{ name: 'session' }] });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import { pixelDiff, parseColor } from '../pixel-diff';
+import { decodePNG, encodePNG } from '../png';
+import { NeuroSpec } from '../index';
+import type { RawImage } from '../types';
+
+function solid(width: number, height: number, [r, g, b]: [number, number, number]): RawImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set([r, g, b, 255], i * 4);
+  }
+  return { width, height, data };
+}
+
+function paint(image: RawImage, x0: number, y0: number, w: number, h: number, color: [number, number, number]): RawImage {
+  const data = new Uint8Array(image.data);
+  for (let y = y0; y < y0 + h; y++) {
+    for (let x = x0; x < x0 + w; x++) {
+      data.set([...color, 255], (y * image.width + x) * 4);
+    }
+  }
+  return { ...image, data };
+}
+
+function pixel(image: RawImage, x: number, y: number): number[] {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(i, i + 4));
+}
+
+describe('pixel diff', () => {
+  const white = solid(40, 40, [255, 255, 255]);
+
+  it('counts changed pixels and reports their bounding boxes', () => {
+    const changed = paint(paint(white, 2, 3, 5, 4, [0, 0, 0]), 30, 30, 6, 6, [0, 0, 255]);
+
+    const result = pixelDiff(white, changed);
+
+    expect(result.changedPixels).toBe(20 + 36);
+    expect(result.regions).toEqual([
+      { x: 2, y: 3, width: 5, height: 4 },
+      { x: 30, y: 30, width: 6, height: 6 }
+    ]);
+  });
+
+  it('renders diff colors, faded context and masks', () => {
+    const darker = paint(white, 0, 0, 4, 4, [0, 0, 0]);
+    const lighter = paint(solid(40, 40, [0, 0, 0]), 0, 0, 4, 4, [255, 255, 255]);
+
+    const diff = decodePNG(pixelDiff(white, darker, { diffColor: '#00ff00', diffColorAlt: 'rgb(0, 0, 255)' }).diff);
+    expect(pixel(diff, 1, 1)).toEqual([0, 0, 255, 255]);
+    expect(pixel(diff, 20, 20)).toEqual([255, 255, 255, 255]);
+
+    const lighterDiff = decodePNG(pixelDiff(solid(40, 40, [0, 0, 0]), lighter, { diffColor: '#00ff00', diffColorAlt: '#0000ff' }).diff);
+    expect(pixel(lighterDiff, 1, 1)).toEqual([0, 255, 0, 255]);
+
+    const masked = decodePNG(pixelDiff(white, darker, { diffMask: true }).diff);
+    expect(pixel(masked, 20, 20)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('treats anti-aliased edges separately unless includeAA is set', () => {
+    // A hard black/white edge with a gray anti-aliasing column that moves by one pixel
+    const base = paint(paint(white, 0, 0, 10, 40, [0, 0, 0]), 10, 0, 1, 40, [128, 128, 128]);
+    const shifted = paint(paint(white, 0, 0, 10, 40, [0, 0, 0]), 10, 0, 1, 40, [100, 100, 100]);
+
+    expect(pixelDiff(base, shifted).antialiasedPixels).toBeGreaterThan(0);
+    expect(pixelDiff(base, shifted).changedPixels).toBe(0);
+    expect(pixelDiff(base, shifted, { includeAA: true }).changedPixels).toBe(40);
+  });
+
+  it('skips ignored regions and rejects unknown colors', () => {
+    const changed = paint(white, 0, 0, 10, 10, [0, 0, 0]);
+
+    expect(pixelDiff(white, changed, { ignoredRegions: [{ x: 0, y: 0, width: 10, height: 10 }] }).changedPixels).toBe(0);
+    expect(() => parseColor('red')).toThrow('Unsupported diff color');
+  });
+
+  it('judges compare() by the pixel diff when it has both images', async () => {
+    const http = axios.create();
+    const post = vi.spyOn(http, 'post');
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, httpClient: http });
+    const images = { baselineImage: encodePNG(white), currentImage: encodePNG(paint(white, 0, 0, 8, 8, [0, 0, 0])) };
+
+    const result = await neuro.compare('home', { ...images, threshold: 0.01 });
+
+    expect(post).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ hasChanges: true, summary: 'Visual changes detected (4.0% of pixels changed)' });
+    expect(result.changes).toEqual([{
+      element: 'home',
+      change: '8x8px region changed at (0, 0)',
+      severity: 'medium',
+      confidence: 1,
+      type: 'content',
+      coordinates: { x: 0, y: 0, width: 8, height: 8 }
+    }]);
+    expect(result.diff).toMatch(/^data:image\/png;base64,/);
+    expect(result.metadata?.pixelDiff).toMatchObject({ changedPixels: 64, regions: [{ x: 0, y: 0, width: 8, height: 8 }] });
+
+    expect((await neuro.compare('home', images)).hasChanges).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { baselineName, captureFromPage, neuralDiffFixtures, serializePageState } from '../playwright';
+import type { NeuralDiffFixture, PlaywrightCookie, PlaywrightPage, PlaywrightTestInfo } from '../playwright';
+import { FileSystemBaselineStore } from '../baseline-store';
+import { encodePNG } from '../png';
+import { NeuroSpec } from '../index';
+import type { NeuralDiffOptions } from '../types';
+
+const captured = { data: { id: 'cap', success: true, hash: 'abc' } };
+const unchanged = { data: { phases: { static: { result: { probability: 0, reasons: [] } } } } };
+
+function png(red: number) {
+  return encodePNG({ width: 2, height: 2, data: Buffer.from(Array.from({ length: 4 }, () => [red, 0, 0, 255]).flat()) });
+}
+
+const session: PlaywrightCookie = { name: 'session', value: 's3cr3t', domain: 'localhost', path: '/', expires: -1, httpOnly: true, secure: false, sameSite: 'Lax' };
+
+function fakePage(screenshot = png(255), cookies = [session]): PlaywrightPage {
+  return {
+    url: () => 'http://localhost:3000/account',
+    viewportSize: () => ({ width: 1024, height: 768 }),
+    context: () => ({
+      cookies: async () => cookies,
+      storageState: async () => ({
+        cookies: [],
+        origins: [
+          { origin: 'http://localhost:3000', localStorage: [{ name: 'theme', value: 'dark' }] },
+          { origin: 'http://localhost:4000', localStorage: [] }
+        ]
+      })
+    }),
+    evaluate: async () => ({
+      colorScheme: 'dark',
+      reducedMotion: 'reduce',
+      userAgent: 'Playwright',
+      locale: 'de-DE',
+      timezoneId: 'Europe/Berlin',
+      deviceScaleFactor: 2
+    }) as any,
+    screenshot: vi.fn(async () => screenshot)
+  };
+}
+
+function createNeuro(options: Partial<NeuralDiffOptions> = {}) {
+  const http = axios.create();
+  const post = vi.spyOn(http, 'post').mockImplementation(async (endpoint: string) => (endpoint.includes('capture') ? captured : unchanged));
+  return { neuro: new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, retry: false, httpClient: http, ...options }), post };
+}
+
+describe('Playwright integration', () => {
+  it('serializes the live page state into capture options', async () => {
+    expect(await serializePageState(fakePage())).toEqual({
+      url: 'http://localhost:3000/account',
+      viewport: { width: 1024, height: 768 },
+      cookies: [{ name: 'session', value: 's3cr3t', domain: 'localhost', path: '/', httpOnly: true, secure: false, sameSite: 'Lax' }],
+      storageState: { origins: [{ origin: 'http://localhost:3000', localStorage: [{ name: 'theme', value: 'dark' }] }] },
+      colorScheme: 'dark',
+      reducedMotion: 'reduce',
+      userAgent: 'Playwright',
+      locale: 'de-DE',
+      timezoneId: 'Europe/Berlin',
+      deviceScaleFactor: 2
+    });
+  });
+
+  it('leaves out SameSite=None on cookies that are not secure', async () => {
+    const { neuro, post } = createNeuro();
+    const page = fakePage(png(255), [{ ...session, sameSite: 'None' }, { ...session, name: 'tracking', secure: true, sameSite: 'None' }]);
+
+    expect((await serializePageState(page)).cookies).toEqual([
+      { name: 'session', value: 's3cr3t', domain: 'localhost', path: '/', httpOnly: true, secure: false },
+      { name: 'tracking', value: 's3cr3t', domain: 'localhost', path: '/', httpOnly: true, secure: true, sameSite: 'None' }
+    ]);
+    await expect(captureFromPage(neuro, page, 'account')).resolves.toMatchObject({ hasChanges: false });
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+
+  it('re-captures with the page state and compares', async () => {
+    const { neuro, post } = createNeuro();
+
+    const result = await captureFromPage(neuro, fakePage(), 'account', { fullPage: true, threshold: 0.2 });
+
+    expect(result.hasChanges).toBe(false);
+    expect(post.mock.calls[0]![1]).toMatchObject({
+      url: 'http://localhost:3000/account',
+      fullPage: true,
+      colorScheme: 'dark',
+      cookies: [{ name: 'session', domain: 'localhost' }],
+      storageState: { origins: [{ origin: 'http://localhost:3000' }] }
+    });
+    expect(post.mock.calls[1]![1]).toMatchObject({ name: 'account', threshold: 0.2 });
+  });
+
+  it('compares page screenshots against the local baseline store', async () => {
+    const store = new FileSystemBaselineStore(mkdtempSync(path.join(tmpdir(), 'neuraldiff-pw-')));
+    const { neuro, post } = createNeuro({ baselineStore: store });
+
+    expect(await captureFromPage(neuro, fakePage(png(255)), 'account', { mode: 'screenshot' })).toMatchObject({ summary: 'Baseline created' });
+    expect(await store.get('account')).not.toBeNull();
+
+    const changed = await captureFromPage(neuro, fakePage(png(0)), 'account', { mode: 'screenshot', hash: false });
+    expect(changed.hasChanges).toBe(true);
+    expect(changed.changes).toMatchObject([{ coordinates: { x: 0, y: 0, width: 2, height: 2 } }]);
+    expect(changed.diff).toMatch(/^data:image\/png;base64,/);
+    expect((await captureFromPage(neuro, fakePage(png(255)), 'account', { mode: 'screenshot' })).hasChanges).toBe(false);
+    expect(post).not.toHaveBeenCalled();
+
+    await expect(captureFromPage(createNeuro().neuro, fakePage(), 'account', { mode: 'screenshot' })).rejects.toMatchObject({ type: 'INVALID_CONFIG' });
+  });
+
+  it('provides a neuralDiff fixture named after the test', async () => {
+    const { neuro, post } = createNeuro();
+    const testInfo: PlaywrightTestInfo = {
+      title: 'pays by card',
+      titlePath: ['checkout.spec.ts', 'Checkout', 'pays by card'],
+      project: { name: 'WebKit' },
+      attach: vi.fn(async () => {})
+    };
+    let fixture: NeuralDiffFixture | undefined;
+
+    await neuralDiffFixtures({ client: neuro }).neuralDiff({ page: fakePage() }, async value => {
+      fixture = value;
+      await value.captureFromPage();
+      await value.captureFromPage();
+    }, testInfo);
+
+    expect(fixture!.name).toBe('checkout-pays-by-card@webkit');
+    expect(post.mock.calls.filter(call => call[0].includes('analyze')).map(call => call[1])).toMatchObject([
+      { name: 'checkout-pays-by-card@webkit' },
+      { name: 'checkout-pays-by-card@webkit-2' }
+    ]);
+    expect(baselineName({ titlePath: ['a.spec.ts', 'Home'], project: { name: '' } })).toBe('home');
+  });
+
+  it('disposes a client it created even when the test fails', async () => {
+    const owned = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false } });
+    const dispose = vi.spyOn(owned, 'dispose');
+    const testInfo: PlaywrightTestInfo = { title: 'fails', titlePath: ['a.spec.ts', 'fails'], project: { name: '' }, attach: vi.fn(async () => {}) };
+
+    const run = neuralDiffFixtures({ client: () => owned }).neuralDiff({ page: fakePage() }, async () => {
+      throw new Error('assertion failed');
+    }, testInfo);
+
+    await expect(run).rejects.toThrow('assertion failed');
+    expect(dispose).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { createPipeline, preprocessPair, composeProcessors, grayscale, brightness } from '../preprocess';
+import { encodePNG } from '../png';
+import { NeuroSpec } from '../index';
+import type { RawImage } from '../types';
+
+function image(width: number, height: number, pixel: (x: number, y: number) => number[]): RawImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set(pixel(x, y), (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+// Vertical text-like strokes; `offset` shifts their intensity the way sub-pixel font rendering does
+function strokes(offset: number): RawImage {
+  return image(32, 32, x => {
+    const value = x % 4 === 0 ? 40 + offset : 220;
+    return [value, value, value, 255];
+  });
+}
+
+describe('image preprocessing', () => {
+  it('applies grayscale, normalize, brightness and contrast', () => {
+    const source = image(2, 1, x => (x === 0 ? [100, 50, 0, 255] : [150, 100, 50, 255]));
+
+    expect(Array.from(createPipeline({ grayscale: true })(source).data.subarray(0, 4))).toEqual([59, 59, 59, 255]);
+    expect(Array.from(createPipeline({ normalize: true })(source).data)).toEqual([0, 0, 0, 255, 255, 255, 255, 255]);
+    expect(Array.from(createPipeline({ brightness: 2, contrast: 1 })(source).data.subarray(0, 4))).toEqual([200, 100, 0, 255]);
+    expect(Array.from(createPipeline({ contrast: 0 })(source).data.subarray(0, 4))).toEqual([128, 128, 128, 255]);
+  });
+
+  it('blurs and sharpens without changing alpha', () => {
+    const dot = image(5, 5, (x, y) => (x === 2 && y === 2 ? [255, 255, 255, 200] : [0, 0, 0, 200]));
+
+    const blurred = createPipeline({ blur: 1 })(dot);
+    expect(blurred.data[(2 * 5 + 2) * 4]).toBeLessThan(255);
+    expect(blurred.data[(2 * 5 + 3) * 4]).toBeGreaterThan(0);
+    expect(blurred.data[3]).toBe(200);
+
+    const sharpened = createPipeline({ sharpen: 1 })(image(3, 1, x => [x * 100, 0, 0, 255]));
+    expect(sharpened.data[0]).toBe(0);
+    expect(sharpened.data[8]).toBeGreaterThan(200);
+  });
+
+  it('resizes the current image to the baseline before processing', () => {
+    const [baseline, current] = preprocessPair(strokes(0), image(64, 64, () => [255, 0, 0, 255]), { resize: true });
+
+    expect([current.width, current.height]).toEqual([baseline.width, baseline.height]);
+    expect(Array.from(current.data.subarray(0, 4))).toEqual([255, 0, 0, 255]);
+  });
+
+  it('composes custom processors', () => {
+    const pipeline = composeProcessors(grayscale, brightness(0.5));
+    expect(Array.from(pipeline(image(1, 1, () => [200, 200, 200, 255])).data)).toEqual([100, 100, 100, 255]);
+  });
+
+  it('tames rendering noise in compare() via global and per-call settings', async () => {
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, imageProcessing: { blur: 2 } });
+
+    const raw = await neuro.compare('text', {
+      baselineImage: encodePNG(strokes(0)),
+      currentImage: encodePNG(strokes(40)),
+      hash: false,
+      imageProcessing: { blur: 0 }
+    });
+    const processed = await neuro.compare('text', {
+      baselineImage: encodePNG(strokes(0)),
+      currentImage: encodePNG(strokes(40)),
+      hash: false
+    });
+
+    expect(raw.metadata?.pixelDiff.changedPixels).toBeGreaterThan(0);
+    expect(processed.metadata?.pixelDiff.changedPixels).toBe(0);
+  });
+});
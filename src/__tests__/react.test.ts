@@ -0,0 +1,139 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import React, { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import axios from 'axios';
+import { NeuralDiffProvider, useCaptureOnChange, useNeuralDiff, withNeuralDiff } from '../react';
+import { NeuroSpec } from '../index';
+import { ErrorType } from '../errors';
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const options = { apiKey: 'test-key', daemon: { autoConnect: false }, retry: false as const };
+
+function createNeuro(respond: () => Promise<unknown> = async () => ({ data: { id: 'cap', success: true, hash: 'abc' } })) {
+  const http = axios.create();
+  const post = vi.spyOn(http, 'post').mockImplementation(respond);
+  return { neuro: new NeuroSpec({ ...options, httpClient: http }), post };
+}
+
+let root: Root | null = null;
+
+async function render(element: React.ReactElement) {
+  if (!root) root = createRoot(document.createElement('div'));
+  await act(async () => root!.render(element));
+}
+
+async function unmount() {
+  await act(async () => root?.unmount());
+  root = null;
+}
+
+describe('React integration', () => {
+  afterEach(async () => {
+    await unmount();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('shares one instance and disposes only an instance it created', async () => {
+    const dispose = vi.spyOn(NeuroSpec.prototype, 'dispose');
+    const seen: NeuroSpec[] = [];
+    const Consumer = () => {
+      seen.push(useNeuralDiff());
+      return null;
+    };
+
+    await render(React.createElement(NeuralDiffProvider, { options }, React.createElement(Consumer), React.createElement(Consumer)));
+    expect(seen).toHaveLength(2);
+    expect(seen[0]).toBe(seen[1]);
+    await unmount();
+    expect(dispose.mock.instances).toEqual([seen[0]]);
+
+    const { neuro } = createNeuro();
+    seen.length = 0;
+    await render(React.createElement(NeuralDiffProvider, { client: neuro }, React.createElement(Consumer)));
+    await unmount();
+    expect(seen).toEqual([neuro]);
+    expect(dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it('hands out a live instance under StrictMode', async () => {
+    const dispose = vi.spyOn(NeuroSpec.prototype, 'dispose');
+    let current: NeuroSpec | null = null;
+    const Consumer = () => {
+      current = useNeuralDiff();
+      return null;
+    };
+
+    await render(React.createElement(React.StrictMode, null, React.createElement(NeuralDiffProvider, { options }, React.createElement(Consumer))));
+
+    expect(current).toBeInstanceOf(NeuroSpec);
+    expect(dispose.mock.instances).not.toContain(current);
+    await unmount();
+    expect(dispose.mock.instances).toContain(current);
+  });
+
+  it('disposes an instance useNeuralDiff created from options', async () => {
+    const dispose = vi.spyOn(NeuroSpec.prototype, 'dispose');
+    let current: NeuroSpec | null = null;
+    const Consumer = () => {
+      current = useNeuralDiff(options);
+      return null;
+    };
+
+    await render(React.createElement(React.StrictMode, null, React.createElement(Consumer)));
+
+    expect(current).toBeInstanceOf(NeuroSpec);
+    expect(dispose.mock.instances).not.toContain(current);
+    await unmount();
+    expect(dispose.mock.instances).toContain(current);
+  });
+
+  it('captures a wrapped component on mount and when watched props change', async () => {
+    vi.useFakeTimers();
+    const { neuro, post } = createNeuro();
+    const Card = (props: { title: string; theme: string }) => React.createElement('h2', { className: props.theme }, props.title);
+    const Wrapped = withNeuralDiff(Card, { client: neuro, captureOnProps: ['title'], url: 'http://localhost:3000/card' });
+    const captures = () => post.mock.calls.filter(call => call[0] === '/api/screenshots/capture');
+
+    expect(Wrapped.displayName).toBe('withNeuralDiff(Card)');
+
+    await render(React.createElement(Wrapped, { title: 'Hello', theme: 'light' }));
+    expect(captures()).toHaveLength(0);
+    await act(async () => { await vi.advanceTimersByTimeAsync(300); });
+    expect(captures()).toHaveLength(1);
+    expect(captures()[0]![1]).toMatchObject({ url: 'http://localhost:3000/card', metadata: { name: 'Card' } });
+
+    await render(React.createElement(Wrapped, { title: 'Hello', theme: 'dark' }));
+    await act(async () => { await vi.advanceTimersByTimeAsync(300); });
+    expect(captures()).toHaveLength(1);
+
+    await render(React.createElement(Wrapped, { title: 'Hi', theme: 'dark' }));
+    await act(async () => { await vi.advanceTimersByTimeAsync(100); });
+    await render(React.createElement(Wrapped, { title: 'Hey', theme: 'dark' }));
+    await act(async () => { await vi.advanceTimersByTimeAsync(300); });
+    expect(captures()).toHaveLength(2);
+  });
+
+  it('puts capture failures into error instead of throwing', async () => {
+    vi.useFakeTimers();
+    const { neuro } = createNeuro(async () => {
+      throw Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    });
+    const onError = vi.fn();
+    let state: ReturnType<typeof useCaptureOnChange> | null = null;
+    const Page = () => {
+      state = useCaptureOnChange('checkout', [], { client: neuro, url: 'http://localhost:3000/checkout', onError });
+      return null;
+    };
+
+    await render(React.createElement(Page));
+    await act(async () => { await vi.advanceTimersByTimeAsync(300); });
+
+    expect(state!.isCapturing).toBe(false);
+    expect(state!.lastCapture).toBeNull();
+    expect(state!.error).toMatchObject({ type: ErrorType.DAEMON_UNAVAILABLE });
+    expect(onError).toHaveBeenCalledWith(state!.error);
+  });
+});
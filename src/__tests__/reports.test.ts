@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { toJUnitXml, toJsonReport, toSarif, writeReport } from '../reports';
+import type { BatchResult, ComparisonResult, SemanticChange } from '../types';
+
+const headerMoved: SemanticChange = {
+  element: 'header',
+  change: 'Moved 12px down',
+  severity: 'high',
+  confidence: 0.9,
+  type: 'position',
+  coordinates: { x: 0, y: 12, width: 1280, height: 80 }
+};
+
+const colorShift: SemanticChange = { element: 'a.cta', change: 'Color changed', severity: 'low', confidence: 0.6, type: 'color' };
+
+const home: ComparisonResult = {
+  name: 'home',
+  hasChanges: true,
+  duration: 1200,
+  summary: '2 changes detected',
+  changes: [headerMoved, colorShift],
+  confidence: 0.9,
+  diff: 'diffs/home.png',
+  current: 'current/home.png'
+};
+
+const about: ComparisonResult = { name: 'about <team>', hasChanges: false, duration: 300, summary: 'No changes', changes: [], confidence: 1 };
+
+const broken: BatchResult = { name: 'checkout', type: 'compare', status: 'error', error: 'Baseline "checkout" not found', attempts: 1, duration: 50 };
+
+const timestamp = new Date('2024-01-01T00:00:00Z');
+
+describe('CI reports', () => {
+  it('writes one JUnit testcase per name with failures and errors', () => {
+    const xml = toJUnitXml([home, about, broken], { timestamp });
+
+    expect(xml).toContain('<testsuites name="NeuralDiff" tests="3" failures="1" errors="1" skipped="0" time="1.550">');
+    expect(xml).toContain('<testcase classname="neuraldiff" name="about &lt;team&gt;" time="0.300"/>');
+    expect(xml).toContain('<failure message="2 changes detected" type="VisualRegression">[high] header: Moved 12px down\n[low] a.cta: Color changed</failure>');
+    expect(xml).toContain('<error message="Baseline &quot;checkout&quot; not found" type="NeuralDiffError"/>');
+    expect(xml).toContain('<system-out>diff: diffs/home.png\ncurrent: current/home.png</system-out>');
+  });
+
+  it('only fails on changes the policy cares about', () => {
+    const lowOnly: ComparisonResult = { ...home, changes: [colorShift] };
+
+    expect(toJsonReport([lowOnly], { policy: { failOn: 'medium' } }).results[0]!.status).toBe('passed');
+    expect(toJsonReport([home], { policy: { failOn: 'high', minConfidence: 0.95 } }).summary.failed).toBe(0);
+    expect(toJsonReport([{ ...home, changes: [] }], { policy: { failOn: 'high' } }).summary.failed).toBe(1);
+  });
+
+  it('maps semantic changes to SARIF results', () => {
+    const sarif = toSarif([home, broken], { timestamp, policy: { failOn: 'medium' } }) as any;
+    const run = sarif.runs[0];
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((rule: any) => rule.id)).toEqual(['neuraldiff/color', 'neuraldiff/position']);
+    expect(run.results.map((r: any) => [r.ruleId, r.ruleIndex, r.level])).toEqual([
+      ['neuraldiff/position', 1, 'error'],
+      ['neuraldiff/color', 0, 'note']
+    ]);
+    expect(run.results[0].locations[0].physicalLocation).toEqual({ artifactLocation: { uri: 'current/home.png' } });
+    expect(run.results[0].attachments).toEqual([{
+      description: { text: 'header in home' },
+      artifactLocation: { uri: 'current/home.png' },
+      rectangles: [{ top: 12, left: 0, bottom: 92, right: 1280 }]
+    }]);
+    expect(run.results[0].properties.coordinates).toEqual({ x: 0, y: 12, width: 1280, height: 80 });
+    expect(run.invocations[0]).toMatchObject({ executionSuccessful: false, toolExecutionNotifications: [{ level: 'error' }] });
+  });
+
+  it('fingerprints same-type changes on one page apart', () => {
+    const heading: SemanticChange = { ...colorShift, element: 'home', selector: 'h1', change: 'Heading color changed' };
+    const footer: SemanticChange = { ...colorShift, element: 'home', selector: 'footer a', change: 'Link color changed' };
+    const page: ComparisonResult = { ...home, changes: [heading, footer] };
+
+    const fingerprints = (results: ComparisonResult[]) => {
+      const sarif = toSarif(results) as { runs: Array<{ results: Array<{ partialFingerprints: Record<string, string> }> }> };
+      return sarif.runs[0]!.results.map(result => result.partialFingerprints['neuraldiff/v1']);
+    };
+
+    expect(new Set(fingerprints([page])).size).toBe(2);
+    expect(fingerprints([{ ...page, duration: 5 }])).toEqual(fingerprints([page]));
+  });
+
+  it('leaves inline diff images out of every format', () => {
+    const inline: ComparisonResult = {
+      name: 'pricing page',
+      hasChanges: true,
+      duration: 800,
+      summary: '1 change detected',
+      changes: [headerMoved],
+      confidence: 0.9,
+      diff: 'data:image/png;base64,iVBORw0KGgo='
+    };
+
+    expect(toJsonReport([inline]).results[0]).not.toHaveProperty('diff');
+    expect(toJUnitXml([inline])).not.toContain('data:image');
+
+    const result = (toSarif([inline]) as any).runs[0].results[0];
+    expect(result.locations[0].physicalLocation).toEqual({ artifactLocation: { uri: 'pricing%20page' } });
+    expect(result).not.toHaveProperty('attachments');
+    expect(result.properties.coordinates).toEqual({ x: 0, y: 12, width: 1280, height: 80 });
+  });
+
+  it('writes a stable JSON report to disk', async () => {
+    const file = path.join(mkdtempSync(path.join(tmpdir(), 'neuraldiff-report-')), 'reports', 'visual.json');
+
+    await writeReport(file, 'json', [home, about], { timestamp, suiteName: 'web' });
+    const report = JSON.parse(readFileSync(file, 'utf8'));
+
+    expect(report).toMatchObject({
+      schemaVersion: 1,
+      tool: { name: 'neuraldiff', version: '1.0.0' },
+      name: 'web',
+      generatedAt: '2024-01-01T00:00:00.000Z',
+      policy: { failOn: 'low', minConfidence: 0 },
+      summary: { total: 2, passed: 1, failed: 1, errors: 0, skipped: 0, duration: 1500 }
+    });
+    expect(report.results[0].failures).toHaveLength(2);
+  });
+});
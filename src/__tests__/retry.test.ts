@@ -0,0 +1,93 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import { computeRetryDelay, parseRetryAfter, resolveRetryPolicy } from '../retry';
+import { ErrorType, toNeuralDiffError } from '../errors';
+import { NeuroSpec } from '../index';
+import type { RetryEvent } from '../types';
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { isAxiosError: true, response: { status, headers, data: {} } });
+}
+
+const analyzed = { data: { phases: { static: { result: { probability: 0, reasons: [] } } } } };
+
+describe('retry policy', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('backs off exponentially with jitter and stops at maxAttempts', () => {
+    const policy = resolveRetryPolicy({ initialDelay: 100, factor: 2, maxDelay: 1000, maxAttempts: 5, jitter: 0.5 });
+    const unavailable = toNeuralDiffError(Object.assign(new Error('refused'), { code: 'ECONNREFUSED' }));
+
+    expect(computeRetryDelay(policy, 1, unavailable, () => 0)).toBe(100);
+    expect(computeRetryDelay(policy, 3, unavailable, () => 0)).toBe(400);
+    expect(computeRetryDelay(policy, 3, unavailable, () => 1)).toBe(200);
+    expect(computeRetryDelay(policy, 4, unavailable, () => 0)).toBe(800);
+    expect(computeRetryDelay(policy, 5, unavailable, () => 0)).toBeNull();
+    expect(computeRetryDelay(policy, 1, toNeuralDiffError(httpError(400)))).toBeNull();
+  });
+
+  it('honors Retry-After on 429 and 503', () => {
+    const policy = resolveRetryPolicy({ maxDelay: 5000 });
+
+    expect(computeRetryDelay(policy, 1, toNeuralDiffError(httpError(429, { 'retry-after': '2' })))).toBe(2000);
+    expect(computeRetryDelay(policy, 1, toNeuralDiffError(httpError(503, { 'retry-after': '120' })))).toBeNull();
+    expect(parseRetryAfter(new Date(Date.now() + 60_000).toUTCString())).toBeGreaterThan(58_000);
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+
+  it('retries idempotent daemon calls and reports each retry', async () => {
+    vi.useFakeTimers();
+    const http = axios.create();
+    const post = vi.spyOn(http, 'post')
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '1' }))
+      .mockResolvedValueOnce(analyzed);
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, retry: { initialDelay: 100, jitter: 0 }, httpClient: http });
+    const retries: RetryEvent[] = [];
+    neuro.on('retry', event => retries.push(event));
+
+    const comparison = neuro.compare('home');
+    await vi.runAllTimersAsync();
+
+    expect((await comparison).hasChanges).toBe(false);
+    expect(post).toHaveBeenCalledTimes(3);
+    expect(retries.map(r => [r.operation, r.endpoint, r.attempt, r.delay, r.error.type])).toEqual([
+      ['compare', '/api/analyze/working-directory', 1, 100, ErrorType.DAEMON_UNAVAILABLE],
+      ['compare', '/api/analyze/working-directory', 2, 1000, ErrorType.INSUFFICIENT_RESOURCES]
+    ]);
+  });
+
+  it('does not retry when disabled or for calls that change daemon state', async () => {
+    const disabledHttp = axios.create();
+    const disabledPost = vi.spyOn(disabledHttp, 'post').mockRejectedValue(httpError(503));
+    const disabled = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, retry: false, httpClient: disabledHttp });
+    await expect(disabled.compare('home')).rejects.toMatchObject({ type: ErrorType.DAEMON_UNAVAILABLE });
+    expect(disabledPost).toHaveBeenCalledTimes(1);
+
+    const http = axios.create();
+    const post = vi.spyOn(http, 'post').mockRejectedValue(httpError(503));
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, httpClient: http });
+    await expect(neuro.rollback('home')).rejects.toMatchObject({ type: ErrorType.DAEMON_UNAVAILABLE });
+    await expect(neuro.capture('home', { url: 'http://localhost:3000' })).rejects.toMatchObject({ statusCode: 503 });
+    await expect(neuro.updateBaseline('home')).rejects.toMatchObject({ statusCode: 503 });
+    await expect(neuro.approveAll()).rejects.toMatchObject({ statusCode: 503 });
+    await expect(neuro.promoteBaselines({ from: 'feature', to: 'main' })).rejects.toMatchObject({ statusCode: 503 });
+    expect(post).toHaveBeenCalledTimes(5);
+  });
+
+  it('leaves retrying batch comparisons to the batch', async () => {
+    const http = axios.create();
+    const post = vi.spyOn(http, 'post').mockRejectedValueOnce(httpError(503)).mockResolvedValueOnce(analyzed);
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, retry: { initialDelay: 100, jitter: 0 }, httpClient: http });
+    const retries = vi.fn();
+    neuro.on('retry', retries);
+
+    const [result] = await neuro.batch([{ type: 'compare', name: 'home' }], { retries: 1 });
+
+    expect(result).toMatchObject({ status: 'success', attempts: 2 });
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(retries).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { captureStorybook, loadStorybookIndex, storyOperations } from '../storybook';
+import { NeuroSpec } from '../index';
+
+const indexJson = {
+  v: 5,
+  entries: {
+    'button--docs': { type: 'docs', id: 'button--docs', title: 'Button', name: 'Docs', importPath: './Button.mdx' },
+    'button--primary': { type: 'story', id: 'button--primary', title: 'Button', name: 'Primary', importPath: './Button.stories.tsx', tags: ['autodocs'] },
+    'button--loading': { type: 'story', id: 'button--loading', title: 'Button', name: 'Loading', importPath: './Button.stories.tsx' }
+  }
+};
+
+const storiesJson = {
+  v: 3,
+  stories: {
+    'card--default': { id: 'card--default', kind: 'Card', story: 'Default', parameters: { neuraldiff: { viewports: [320, 'desktop'], ignore: ['.avatar'] } } },
+    'card--animated': { id: 'card--animated', kind: 'Card', story: 'Animated', parameters: { neuraldiff: { disable: true } } },
+    'card--intro': { id: 'card--intro', kind: 'Card', story: 'Intro', parameters: { docsOnly: true } }
+  }
+};
+
+function storybookDir(files: Record<string, unknown>): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'neuraldiff-storybook-'));
+  for (const [file, content] of Object.entries(files)) {
+    writeFileSync(path.join(dir, file), JSON.stringify(content));
+  }
+  return dir;
+}
+
+function notFound() {
+  return Object.assign(new Error('No baseline'), { isAxiosError: true, response: { status: 404, headers: {}, data: { code: 'BASELINE_NOT_FOUND', message: 'No baseline' } } });
+}
+
+describe('Storybook integration', () => {
+  it('reads stories from index.json, falling back to stories.json', async () => {
+    expect((await loadStorybookIndex(storybookDir({ 'index.json': indexJson }))).map(story => story.id)).toEqual(['button--primary', 'button--loading']);
+
+    const legacy = await loadStorybookIndex(storybookDir({ 'stories.json': storiesJson }));
+    expect(legacy.map(story => `${story.title}/${story.name}`)).toEqual(['Card/Default', 'Card/Animated']);
+
+    await expect(loadStorybookIndex(storybookDir({}))).rejects.toMatchObject({ type: 'INVALID_INPUT' });
+  });
+
+  it('honours story viewports, ignore selectors and disable', async () => {
+    const stories = await loadStorybookIndex(storybookDir({ 'stories.json': storiesJson }));
+
+    const operations = storyOperations(stories, {
+      url: 'http://localhost:6006',
+      viewports: [{ name: 'desktop', width: 1280, height: 720 }],
+      threshold: 0.05,
+      ignoredSelectors: ['.clock']
+    });
+
+    expect(operations.map(operation => operation.name)).toEqual(['card--default@320x800', 'card--default@desktop']);
+    expect(operations[1]).toEqual({
+      type: 'pipeline',
+      name: 'card--default@desktop',
+      steps: [
+        { type: 'capture', options: { url: 'http://localhost:6006/iframe.html?id=card--default&viewMode=story', viewport: { name: 'desktop', width: 1280, height: 720 } } },
+        { type: 'compare', options: { threshold: 0.05, ignoredSelectors: ['.clock', '.avatar'] } }
+      ]
+    });
+
+    expect(() => storyOperations(stories, { url: 'http://localhost:6006' })).toThrow(/unknown viewport "desktop"/);
+  });
+
+  it('runs every story through batch() and creates missing baselines', async () => {
+    const http = axios.create();
+    const post = vi.spyOn(http, 'post').mockImplementation(async (endpoint: string, body: any) => {
+      if (endpoint.includes('capture')) return { data: { id: 'cap', success: true, hash: 'abc' } };
+      if (endpoint.includes('analyze') && body.name === 'button--loading') throw notFound();
+      return { data: { phases: { static: { result: { probability: 0, reasons: [] } } } } };
+    });
+    const neuro = new NeuroSpec({ apiKey: 'test-key', daemon: { autoConnect: false }, retry: false, httpClient: http });
+
+    const results = await captureStorybook(neuro, {
+      source: storybookDir({ 'index.json': indexJson }),
+      url: 'https://design.example.com/storybook/',
+      capture: { fullPage: true }
+    });
+
+    expect(results.map(result => [result.name, result.status, (result.result as any)?.summary])).toEqual([
+      ['button--primary', 'success', 'No visual changes detected'],
+      ['button--loading', 'success', 'Baseline created']
+    ]);
+    expect(post.mock.calls[0]![1]).toMatchObject({ url: 'https://design.example.com/storybook/iframe.html?id=button--primary&viewMode=story', fullPage: true });
+    expect(post.mock.calls.map(call => call[0])).toContain('/baseline/button--loading/update');
+
+    await expect(captureStorybook(neuro, { source: 'storybook-static' })).rejects.toMatchObject({ type: 'INVALID_CONFIG' });
+  });
+});
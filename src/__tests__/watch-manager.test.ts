@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { WatchManager } from '../watch-manager';
+import type { WatchReconnectOptions } from '../types';
+
+class FakeSocket extends EventEmitter {
+  readyState = 0;
+  sent: any[] = [];
+  closed = false;
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.closed = true;
+    this.readyState = 3;
+  }
+
+  open() {
+    this.readyState = 1;
+    this.emit('open');
+  }
+
+  drop() {
+    this.readyState = 3;
+    this.emit('close');
+  }
+}
+
+function setup(reconnect?: WatchReconnectOptions | false) {
+  const sockets: FakeSocket[] = [];
+  const manager = new WatchManager('ws://localhost:7878/ws', {
+    ...(reconnect !== undefined ? { reconnect } : {}),
+    createSocket: () => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket;
+    }
+  });
+  return { manager, sockets };
+}
+
+describe('WatchManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('multiplexes watchers over one socket and routes messages by ID', () => {
+    const { manager, sockets } = setup();
+    const first = { url: 'http://localhost:3000', options: { paths: ['/'], interval: 500 }, onMessage: vi.fn(), onError: vi.fn() };
+    const second = { url: 'http://localhost:4000', onMessage: vi.fn(), onError: vi.fn() };
+
+    const a = manager.subscribe(first);
+    const b = manager.subscribe(second);
+    sockets[0]!.open();
+
+    expect(sockets).toHaveLength(1);
+    expect(sockets[0]!.sent).toEqual([
+      { type: 'start-watch', id: a, url: 'http://localhost:3000', options: { paths: ['/'], interval: 500 } },
+      { type: 'start-watch', id: b, url: 'http://localhost:4000', options: {} }
+    ]);
+
+    sockets[0]!.emit('message', JSON.stringify({ type: 'change', id: b, path: '/' }));
+    expect(first.onMessage).not.toHaveBeenCalled();
+    expect(second.onMessage).toHaveBeenCalledWith({ type: 'change', id: b, path: '/' });
+
+    manager.unsubscribe(a);
+    expect(sockets[0]!.sent.at(-1)).toEqual({ type: 'stop', id: a });
+    expect(sockets[0]!.closed).toBe(false);
+
+    manager.unsubscribe(b);
+    expect(sockets[0]!.closed).toBe(true);
+  });
+
+  it('reconnects with backoff and re-subscribes', () => {
+    const { manager, sockets } = setup({ minDelay: 100, factor: 2, maxDelay: 1000 });
+    const disconnected = vi.fn();
+    manager.on('disconnected', disconnected);
+    const id = manager.subscribe({ url: 'http://localhost:3000', onMessage: vi.fn(), onError: vi.fn() });
+
+    sockets[0]!.open();
+    sockets[0]!.drop();
+    expect(disconnected).toHaveBeenLastCalledWith({ attempt: 1, retryIn: 100 });
+
+    vi.advanceTimersByTime(100);
+    sockets[1]!.drop();
+    expect(disconnected).toHaveBeenLastCalledWith({ attempt: 2, retryIn: 200 });
+
+    vi.advanceTimersByTime(200);
+    sockets[2]!.open();
+    expect(sockets[2]!.sent).toEqual([{ type: 'start-watch', id, url: 'http://localhost:3000', options: {} }]);
+
+    // A successful connection resets the backoff
+    sockets[2]!.drop();
+    expect(disconnected).toHaveBeenLastCalledWith({ attempt: 1, retryIn: 100 });
+    manager.dispose();
+  });
+
+  it('routes malformed frames, daemon errors and exhausted retries to onError', () => {
+    const { manager, sockets } = setup({ retries: 1, minDelay: 10 });
+    const onError = vi.fn();
+    const onClose = vi.fn();
+    const id = manager.subscribe({ url: 'http://localhost:3000', onMessage: vi.fn(), onError, onClose });
+    sockets[0]!.open();
+
+    sockets[0]!.emit('message', 'not json');
+    expect(onError.mock.calls[0]![0].message).toBe('Received malformed watch message: not json');
+    sockets[0]!.emit('message', 'null');
+    sockets[0]!.emit('message', '42');
+    expect(onError.mock.calls.slice(1, 3).map(call => call[0].message)).toEqual([
+      'Received malformed watch message: null',
+      'Received malformed watch message: 42'
+    ]);
+
+    sockets[0]!.emit('message', JSON.stringify({ type: 'error', id, message: 'Page not reachable' }));
+    expect(onError.mock.calls[3]![0].message).toBe('Page not reachable');
+
+    sockets[0]!.drop();
+    vi.advanceTimersByTime(10);
+    sockets[1]!.drop();
+    expect(onError.mock.calls[4]![0].message).toBe('Watch connection to ws://localhost:7878/ws lost after 1 reconnect attempts');
+    expect(onClose).toHaveBeenCalledOnce();
+    expect(onClose.mock.calls[0]![0]).toBe(onError.mock.calls[4]![0]);
+    expect(sockets).toHaveLength(2);
+  });
+
+  it('stops reconnecting once disposed', () => {
+    const { manager, sockets } = setup({ minDelay: 10 });
+    manager.subscribe({ url: 'http://localhost:3000', onMessage: vi.fn(), onError: vi.fn() });
+    sockets[0]!.open();
+    sockets[0]!.drop();
+
+    manager.dispose();
+    vi.advanceTimersByTime(1000);
+
+    expect(sockets).toHaveLength(1);
+    expect(manager.size).toBe(0);
+    expect(() => manager.subscribe({ url: 'x', onMessage: vi.fn(), onError: vi.fn() })).toThrow('Watch manager has been disposed');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { AsyncQueue } from '../watch-stream';
+import { NeuroSpec } from '../index';
+import type { WatchResult } from '../types';
+
+class FakeSocket extends EventEmitter {
+  readyState = 1;
+  sent: any[] = [];
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+  close() {
+    this.readyState = 3;
+  }
+}
+
+function connect(reconnect?: false) {
+  const socket = new FakeSocket();
+  const neuro = new NeuroSpec({
+    apiKey: 'test-key',
+    daemon: { autoConnect: false },
+    createWatchSocket: () => socket,
+    ...(reconnect === false ? { watchReconnect: reconnect } : {})
+  });
+  const change = (path: string, description = 'changed') =>
+    socket.emit('message', JSON.stringify({ type: 'change', path, description, hasChanges: true, timestamp: 1, severity: 'low' }));
+  return { neuro, socket, change };
+}
+
+describe('AsyncQueue', () => {
+  it('buffers up to its size, dropping the oldest items', async () => {
+    const queue = new AsyncQueue<number>({ bufferSize: 2 });
+    [1, 2, 3].forEach(n => queue.push(n));
+    queue.end();
+
+    const received: number[] = [];
+    for await (const n of queue) received.push(n);
+
+    expect(received).toEqual([2, 3]);
+    expect(queue.droppedCount).toBe(1);
+  });
+});
+
+describe('NeuroSpec.watch streams', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('yields results with for await and ends on abort', async () => {
+    const { neuro, socket, change } = connect();
+    const controller = new AbortController();
+    const watcher = neuro.watch('http://localhost:3000', { signal: controller.signal });
+    const id = watcher.id;
+
+    const received: string[] = [];
+    const consumed = (async () => {
+      for await (const result of watcher) {
+        received.push(result.path);
+        if (received.length === 2) controller.abort();
+      }
+    })();
+
+    change('/');
+    change('/about');
+    await consumed;
+    change('/late');
+
+    expect(received).toEqual(['/', '/about']);
+    expect(socket.sent.at(-1)).toEqual({ type: 'stop', id });
+  });
+
+  it('stops the watcher when the loop breaks', async () => {
+    const { neuro, socket, change } = connect();
+    const watcher = neuro.watch('http://localhost:3000');
+    change('/');
+
+    for await (const result of watcher) {
+      expect(result.path).toBe('/');
+      break;
+    }
+
+    expect(socket.readyState).toBe(3);
+  });
+
+  it('debounces bursts per path into the latest result', async () => {
+    vi.useFakeTimers();
+    const { neuro, change } = connect();
+    const onChange = vi.fn();
+    const watcher = neuro.watch('http://localhost:3000', { debounce: 100, onChange });
+
+    change('/', 'first');
+    change('/about', 'other page');
+    vi.advanceTimersByTime(50);
+    change('/', 'second');
+    vi.advanceTimersByTime(99);
+    expect(onChange.mock.calls.map(([r]) => r.description)).toEqual(['other page']);
+
+    vi.advanceTimersByTime(1);
+    expect(onChange.mock.calls.map(([r]) => r.description)).toEqual(['other page', 'second']);
+
+    change('/', 'pending at stop');
+    watcher.stop();
+
+    const received: WatchResult[] = [];
+    for await (const result of watcher) received.push(result);
+    expect(received.map(r => r.description)).toEqual(['other page', 'second', 'pending at stop']);
+  });
+
+  it('throws from the loop once the daemon connection is lost for good', async () => {
+    const { neuro, socket, change } = connect(false);
+    neuro.on('error', () => {});
+    const watcher = neuro.watch('http://localhost:3000');
+
+    const received: string[] = [];
+    const consumed = (async () => {
+      for await (const result of watcher) received.push(result.path);
+    })();
+
+    change('/');
+    socket.emit('close');
+
+    await expect(consumed).rejects.toMatchObject({ message: 'Watch connection to ws://localhost:7878/ws closed' });
+    expect(received).toEqual(['/']);
+  });
+
+  it('returns an already-ended watcher for an aborted signal', async () => {
+    const { neuro } = connect();
+    const watcher = neuro.watch('http://localhost:3000', { signal: AbortSignal.abort() });
+
+    const received: WatchResult[] = [];
+    for await (const result of watcher) received.push(result);
+    expect(received).toEqual([]);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * NeuralDiff SDK - Baseline Store
+ * Versioned, content-addressed baseline storage on the local filesystem
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { decodePNG, encodePNG, isPNG } from './png';
+import type { BaselinePutOptions, BaselineRecord, BaselineStore, ImageSource, StoredBaseline } from './types';
+
+export const DEFAULT_BASELINE_DIR = path.join('.neuraldiff', 'baselines');
+
+const INDEX_FILE = 'index.json';
+
+interface BaselineIndex {
+    current: string;
+    versions: string[];
+}
+
+/**
+ * Stores baselines as `<root>/<name>/<version>.png` with a `<version>.json` record next to
+ * each image and an `index.json` holding the version order and the current version.
+ *
+ * Versions are the capture hash when one is given, otherwise a SHA-256 of the PNG bytes,
+ * so storing identical screenshots twice yields a single file. The directory is plain
+ * files and JSON and can be committed to git or cached between CI runs.
+ *
+ * Writes are serialized per store instance, so concurrent `put` calls from `batch()` don't
+ * lose each other's `index.json` updates.
+ */
+export class FileSystemBaselineStore implements BaselineStore {
+    readonly root: string;
+    private writes: Promise<unknown> = Promise.resolve();
+
+    constructor(root: string = DEFAULT_BASELINE_DIR) {
+        this.root = path.resolve(root);
+    }
+
+    async put(name: string, image: ImageSource, options: BaselinePutOptions = {}): Promise<BaselineRecord> {
+        return this.serialize(() => this.write(name, image, options));
+    }
+
+    private async write(name: string, image: ImageSource, options: BaselinePutOptions): Promise<BaselineRecord> {
+        const bytes = await this.toPNG(image);
+        const { width, height } = decodePNG(bytes);
+        const hash = options.hash || createHash('sha256').update(bytes).digest('hex');
+        const version = toVersion(hash);
+        const dir = this.dirFor(name);
+
+        const record: BaselineRecord = {
+            name,
+            version,
+            hash,
+            createdAt: new Date().toISOString(),
+            width,
+            height,
+            ...(options.tag ? { tag: options.tag } : {}),
+            ...(options.metadata ? { metadata: options.metadata } : {})
+        };
+
+        await fs.mkdir(dir, { recursive: true });
+        await fs.writeFile(path.join(dir, `${version}.png`), bytes);
+        await writeJSON(path.join(dir, `${version}.json`), record);
+
+        // Re-storing an existing version moves it to the top of the history
+        const index = await this.readIndex(name);
+        const versions = (index?.versions || []).filter(existing => existing !== version);
+        await writeJSON(path.join(dir, INDEX_FILE), { current: version, versions: [...versions, version] });
+
+        return record;
+    }
+
+    async get(name: string, version?: string): Promise<StoredBaseline | null> {
+        const index = await this.readIndex(name);
+        const target = version ?? index?.current;
+        if (!target) return null;
+
+        const dir = this.dirFor(name);
+        try {
+            const [image, record] = await Promise.all([
+                fs.readFile(path.join(dir, `${toVersion(target)}.png`)),
+                readJSON<BaselineRecord>(path.join(dir, `${toVersion(target)}.json`))
+            ]);
+            return { record, image };
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async list(): Promise<BaselineRecord[]> {
+        let entries: string[];
+        try {
+            entries = await fs.readdir(this.root);
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') return [];
+            throw error;
+        }
+
+        const records = await Promise.all(entries.map(async entry => {
+            const dir = path.join(this.root, entry);
+            try {
+                const index = await readJSON<BaselineIndex>(path.join(dir, INDEX_FILE));
+                return await readJSON<BaselineRecord>(path.join(dir, `${index.current}.json`));
+            } catch (error: any) {
+                if (error?.code === 'ENOENT' || error?.code === 'ENOTDIR') return null;
+                throw error;
+            }
+        }));
+
+        return records
+            .filter((record): record is BaselineRecord => record !== null)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    async history(name: string): Promise<BaselineRecord[]> {
+        const index = await this.readIndex(name);
+        if (!index) return [];
+
+        const dir = this.dirFor(name);
+        const records = await Promise.all(
+            index.versions.map(version => readJSON<BaselineRecord>(path.join(dir, `${version}.json`)))
+        );
+        return records.reverse();
+    }
+
+    async setCurrent(name: string, version: string): Promise<BaselineRecord> {
+        return this.serialize(async () => {
+            const index = await this.readIndex(name);
+            const target = toVersion(version);
+            if (!index?.versions.includes(target)) {
+                throw new Error(`No baseline version "${version}" exists for "${name}"`);
+            }
+
+            const dir = this.dirFor(name);
+            await writeJSON(path.join(dir, INDEX_FILE), { current: target, versions: index.versions });
+            return readJSON<BaselineRecord>(path.join(dir, `${target}.json`));
+        });
+    }
+
+    async delete(name: string, version?: string): Promise<void> {
+        return this.serialize(() => this.remove(name, version));
+    }
+
+    private async remove(name: string, version?: string): Promise<void> {
+        const dir = this.dirFor(name);
+
+        if (!version) {
+            await fs.rm(dir, { recursive: true, force: true });
+            return;
+        }
+
+        const index = await this.readIndex(name);
+        if (!index) return;
+
+        const target = toVersion(version);
+        await fs.rm(path.join(dir, `${target}.png`), { force: true });
+        await fs.rm(path.join(dir, `${target}.json`), { force: true });
+
+        const versions = index.versions.filter(existing => existing !== target);
+        if (versions.length === 0) {
+            await fs.rm(dir, { recursive: true, force: true });
+            return;
+        }
+
+        const current = index.current === target ? versions[versions.length - 1]! : index.current;
+        await writeJSON(path.join(dir, INDEX_FILE), { current, versions });
+    }
+
+    // index.json is read-modify-write, so writes run one at a time
+    private serialize<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.writes.then(task, task);
+        this.writes = run.catch(() => undefined);
+        return run;
+    }
+
+    private dirFor(name: string): string {
+        return path.join(this.root, encodeName(name));
+    }
+
+    private async readIndex(name: string): Promise<BaselineIndex | null> {
+        try {
+            return await readJSON<BaselineIndex>(path.join(this.dirFor(name), INDEX_FILE));
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    private async toPNG(image: ImageSource): Promise<Buffer> {
+        if (typeof image === 'string') {
+            return fs.readFile(image);
+        }
+        if (image instanceof Uint8Array) {
+            if (!isPNG(image)) throw new Error('Baseline images must be PNG encoded');
+            return Buffer.from(image);
+        }
+        return encodePNG(image);
+    }
+}
+
+/**
+ * Map a baseline name to a single safe directory name (`home@mobile.dark` stays readable)
+ */
+function encodeName(name: string): string {
+    if (!name || name === '.' || name === '..') {
+        throw new Error(`Invalid baseline name "${name}"`);
+    }
+    return name.replace(/[^A-Za-z0-9._@-]/g, char =>
+        char === '~' ? '~7E' : encodeURIComponent(char).replace(/%/g, '~'));
+}
+
+function toVersion(hash: string): string {
+    const version = hash.toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 16);
+    if (!version) throw new Error(`Invalid baseline version "${hash}"`);
+    return version;
+}
+
+async function readJSON<T>(file: string): Promise<T> {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+}
+
+async function writeJSON(file: string, value: unknown): Promise<void> {
+    await fs.writeFile(file, JSON.stringify(value, null, 2) + '\n');
+}
@@ -0,0 +1,182 @@
+/**
+ * NeuralDiff SDK - Batch Runner
+ * Runs capture/compare operations with progress, cancellation, fail-fast and retries
+ */
+
+import { ErrorType, NeuralDiffError, isMissingBaselineError, toNeuralDiffError } from './errors';
+import type { BatchFailure, BatchOperation, BatchOptions, BatchProgressEvent, BatchResult, BatchStep, BatchStepResult, CaptureOptions, CaptureResult, CompareOptions, ComparisonResult } from './types';
+
+export interface BatchContext {
+    /** Runs a task under the instance's concurrency limit */
+    schedule: <T>(task: () => Promise<T>) => Promise<T>;
+    execute: (name: string, step: BatchStep) => Promise<CaptureResult | ComparisonResult>;
+    progress: (event: BatchProgressEvent) => void;
+}
+
+/**
+ * Run every operation and resolve with one result per operation, in input order.
+ *
+ * Failures never reject the batch: they become `status: 'error'` results with a structured
+ * `failure`. Operations that had not started when the signal aborted, or when an earlier
+ * operation failed under `failFast`, are reported as `status: 'skipped'`.
+ */
+export async function runBatch(operations: BatchOperation[], options: BatchOptions, context: BatchContext): Promise<BatchResult[]> {
+    for (const operation of operations) {
+        if (operation.type === 'pipeline' && (!operation.steps || operation.steps.length === 0)) {
+            throw new NeuralDiffError(ErrorType.INVALID_INPUT, `Batch pipeline "${operation.name}" has no steps`, { operation: 'batch' });
+        }
+    }
+
+    let completed = 0;
+    let failed = 0;
+    let halted: string | null = null;
+
+    const haltReason = (): string | null =>
+        options.signal?.aborted ? 'Batch was aborted' : halted;
+
+    return Promise.all(operations.map(operation =>
+        context.schedule(async () => {
+            const reason = haltReason();
+            const result = reason
+                ? skipped(operation, reason)
+                : await runOperation(operation, options, haltReason, context);
+
+            if (result.status === 'error') {
+                failed++;
+                if (options.failFast && !halted) {
+                    halted = `Skipped after "${operation.name}" failed`;
+                }
+            }
+
+            completed++;
+            context.progress({ completed, failed, total: operations.length, operation, result });
+            return result;
+        })
+    ));
+}
+
+/**
+ * Describe an error thrown by a batch step without losing its type, HTTP status or error code
+ */
+export function toBatchFailure(error: unknown, step?: BatchStep['type']): BatchFailure {
+    const failure = toNeuralDiffError(error, { operation: step || 'batch' });
+    const code: unknown = (failure.cause as any)?.code;
+    return {
+        name: failure.name,
+        message: failure.message,
+        type: failure.type,
+        userMessage: failure.userMessage,
+        ...(step ? { step } : {}),
+        ...(typeof code === 'string' ? { code } : {}),
+        ...(failure.statusCode !== undefined ? { status: failure.statusCode } : {}),
+        retryable: failure.retryable,
+        cause: failure
+    };
+}
+
+async function runOperation(
+    operation: BatchOperation,
+    options: BatchOptions,
+    haltReason: () => string | null,
+    context: BatchContext
+): Promise<BatchResult> {
+    const startTime = Date.now();
+    const retries = Math.max(0, operation.retries ?? options.retries ?? 0);
+    const steps = stepsOf(operation);
+    const stepResults: BatchStepResult[] = [];
+    let attempts = 0;
+
+    const finish = (fields: Partial<BatchResult>): BatchResult => ({
+        name: operation.name,
+        type: operation.type,
+        status: 'success',
+        attempts,
+        duration: Date.now() - startTime,
+        ...(operation.type === 'pipeline' ? { steps: stepResults } : {}),
+        ...fields
+    });
+
+    for (const step of steps) {
+        for (let attempt = 0; ; attempt++) {
+            attempts++;
+            const stepStart = Date.now();
+            try {
+                const result = await context.execute(operation.name, step);
+                stepResults.push({ type: step.type, result, duration: Date.now() - stepStart });
+                break;
+            } catch (error) {
+                const failure = toBatchFailure(error, step.type);
+                if (attempt >= retries || !failure.retryable || haltReason()) {
+                    return finish({ status: 'error', error: failure.message, failure });
+                }
+                await delay(options.retryDelay ?? 0, options.signal);
+            }
+        }
+    }
+
+    return finish({ result: stepResults[stepResults.length - 1]!.result });
+}
+
+/**
+ * A capture-only operation, or a capture → compare pipeline when compare options are given
+ */
+export function captureOperation(name: string, capture: CaptureOptions, compare: CompareOptions | false): BatchOperation {
+    return compare === false
+        ? { type: 'capture', name, options: capture }
+        : { type: 'pipeline', name, steps: [{ type: 'capture', options: capture }, { type: 'compare', options: compare }] };
+}
+
+/**
+ * Store a baseline for every operation that failed only because it had none yet.
+ * Those results become successes with a "Baseline created" comparison; if storing fails the original error is kept.
+ */
+export async function createMissingBaselines(results: BatchResult[], update: (name: string) => Promise<unknown>): Promise<BatchResult[]> {
+    return Promise.all(results.map(async (result): Promise<BatchResult> => {
+        if (result.status !== 'error' || !isMissingBaselineError(result.failure?.cause)) return result;
+        try {
+            await update(result.name);
+        } catch {
+            return result;
+        }
+        return {
+            name: result.name,
+            type: result.type,
+            status: 'success',
+            attempts: result.attempts,
+            duration: result.duration,
+            ...(result.steps ? { steps: result.steps } : {}),
+            result: { name: result.name, hasChanges: false, duration: 0, summary: 'Baseline created', changes: [], confidence: 1 }
+        };
+    }));
+}
+
+function stepsOf(operation: BatchOperation): BatchStep[] {
+    if (operation.type === 'pipeline') {
+        return operation.steps || [];
+    }
+    return [{ type: operation.type, ...(operation.options ? { options: operation.options } : {}) }];
+}
+
+function skipped(operation: BatchOperation, reason: string): BatchResult {
+    return {
+        name: operation.name,
+        type: operation.type,
+        status: 'skipped',
+        error: reason,
+        attempts: 0,
+        duration: 0
+    };
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    if (ms <= 0 || signal?.aborted) return Promise.resolve();
+    return new Promise(resolve => {
+        const done = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener('abort', done, { once: true });
+    });
+}
@@ -0,0 +1,28 @@
+#!/usr/bin/env node
+/**
+ * NeuralDiff SDK - `neuraldiff` executable
+ */
+
+import { parseArgs, runCli } from './cli';
+
+const argv = process.argv.slice(2);
+const controller = new AbortController();
+
+// Only `watch` ends on the signal; every other command keeps Node's default Ctrl-C handling
+if (isWatch(argv)) {
+    process.once('SIGINT', () => controller.abort());
+    process.once('SIGTERM', () => controller.abort());
+}
+
+runCli(argv, { signal: controller.signal }).then(code => {
+    process.exitCode = code;
+});
+
+function isWatch(args: string[]): boolean {
+    try {
+        return parseArgs(args).command === 'watch';
+    } catch {
+        // runCli reports the usage error
+        return false;
+    }
+}
@@ -0,0 +1,142 @@
+/**
+ * NeuralDiff SDK - Branch-Aware Baselines
+ * Namespaces baselines per git branch with fallback to the default branch
+ */
+
+import type { BaselinePutOptions, BaselineRecord, BaselineStore, BranchBaselineOptions, ImageSource, PromoteBaselinesOptions, StoredBaseline } from './types';
+
+// ':' can never appear in a git branch name, so it cleanly separates branch from baseline name
+const SEPARATOR = ':';
+
+/**
+ * Wraps any `BaselineStore` so each branch gets its own baselines.
+ *
+ * Writes always go to the current branch. Reads try the current branch first and then
+ * `fallbackBranches` and `defaultBranch` in order, so a fresh feature branch compares
+ * against main until it approves baselines of its own.
+ */
+export class BranchAwareBaselineStore implements BaselineStore {
+    readonly branch: string;
+    readonly defaultBranch: string;
+    private readonly store: BaselineStore;
+    private readonly fallbackBranches: string[];
+
+    constructor(store: BaselineStore, options: BranchBaselineOptions = {}) {
+        this.store = store;
+        this.defaultBranch = options.defaultBranch || 'main';
+        this.branch = options.branch || this.defaultBranch;
+        this.fallbackBranches = options.fallbackBranches || [];
+    }
+
+    /**
+     * Branches consulted for reads, most specific first
+     */
+    get lookupOrder(): string[] {
+        return Array.from(new Set([this.branch, ...this.fallbackBranches, this.defaultBranch]));
+    }
+
+    async put(name: string, image: ImageSource, options?: BaselinePutOptions): Promise<BaselineRecord> {
+        const record = await this.store.put(scoped(this.branch, name), image, options);
+        return this.unscope(record);
+    }
+
+    async get(name: string, version?: string): Promise<StoredBaseline | null> {
+        for (const branch of this.lookupOrder) {
+            const found = await this.store.get(scoped(branch, name), version);
+            if (found) return { ...found, record: this.unscope(found.record) };
+        }
+        return null;
+    }
+
+    async list(): Promise<BaselineRecord[]> {
+        const records = await this.store.list();
+        const byName = new Map<string, BaselineRecord>();
+
+        // Walk from least to most specific so the current branch wins
+        for (const branch of [...this.lookupOrder].reverse()) {
+            for (const record of records) {
+                const parsed = parseScoped(record.name);
+                if (parsed?.branch === branch) byName.set(parsed.name, this.unscope(record));
+            }
+        }
+
+        return Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    async history(name: string): Promise<BaselineRecord[]> {
+        for (const branch of this.lookupOrder) {
+            const records = await this.store.history(scoped(branch, name));
+            if (records.length > 0) return records.map(record => this.unscope(record));
+        }
+        return [];
+    }
+
+    /**
+     * Move the current branch's pointer; a version only found on a fallback branch is copied onto this branch
+     */
+    async setCurrent(name: string, version: string): Promise<BaselineRecord> {
+        if (await this.store.get(scoped(this.branch, name), version)) {
+            return this.unscope(await this.store.setCurrent(scoped(this.branch, name), version));
+        }
+
+        const found = await this.get(name, version);
+        if (!found) throw new Error(`No baseline version "${version}" exists for "${name}"`);
+        return this.put(name, found.image, {
+            hash: found.record.hash,
+            ...(found.record.tag ? { tag: found.record.tag } : {}),
+            ...(found.record.metadata ? { metadata: found.record.metadata } : {})
+        });
+    }
+
+    async delete(name: string, version?: string): Promise<void> {
+        await this.store.delete(scoped(this.branch, name), version);
+    }
+
+    /**
+     * Copy the current baselines of one branch onto another (by default: this branch onto
+     * the default branch, e.g. after the feature branch is merged).
+     */
+    async promote(options: PromoteBaselinesOptions = {}): Promise<BaselineRecord[]> {
+        const from = options.from || this.branch;
+        const to = options.to || this.defaultBranch;
+        if (from === to) return [];
+
+        const records = (await this.store.list()).filter(record => parseScoped(record.name)?.branch === from);
+        const promoted: BaselineRecord[] = [];
+
+        for (const record of records) {
+            const name = parseScoped(record.name)!.name;
+            if (options.names && !options.names.includes(name)) continue;
+
+            const source = await this.store.get(record.name);
+            if (!source) continue;
+
+            const target = await this.store.put(scoped(to, name), source.image, {
+                hash: source.record.hash,
+                ...(source.record.tag ? { tag: source.record.tag } : {}),
+                metadata: { ...source.record.metadata, promotedFrom: from }
+            });
+            promoted.push(this.unscope(target));
+
+            if (options.removeSource) {
+                await this.store.delete(record.name);
+            }
+        }
+
+        return promoted;
+    }
+
+    private unscope(record: BaselineRecord): BaselineRecord {
+        const parsed = parseScoped(record.name);
+        return parsed ? { ...record, name: parsed.name, branch: parsed.branch } : record;
+    }
+}
+
+function scoped(branch: string, name: string): string {
+    return `${branch}${SEPARATOR}${name}`;
+}
+
+function parseScoped(name: string): { branch: string; name: string } | null {
+    const index = name.indexOf(SEPARATOR);
+    return index > 0 ? { branch: name.slice(0, index), name: name.slice(index + 1) } : null;
+}
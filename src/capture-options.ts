@@ -0,0 +1,181 @@
+/**
+ * NeuralDiff SDK - Capture Options
+ * Validates `CaptureOptions` and serializes them into the daemon's capture payload
+ */
+
+import { ErrorType, NeuralDiffError } from './errors';
+import type { CaptureOptions, Cookie } from './types';
+
+const DEVICE_FLAGS = ['deviceScaleFactor', 'isMobile', 'hasTouch', 'isLandscape'] as const;
+
+/**
+ * Thrown before a capture is sent when its options are invalid or contradict each other
+ */
+export class CaptureOptionsError extends NeuralDiffError {
+    readonly issues: string[];
+
+    constructor(issues: string[]) {
+        super(ErrorType.INVALID_INPUT, `Invalid capture options:\n${issues.map(issue => `  - ${issue}`).join('\n')}`, { operation: 'capture' });
+        this.name = 'CaptureOptionsError';
+        this.issues = issues;
+    }
+}
+
+/**
+ * Thrown when the daemon reports that it cannot honor one or more capture options
+ */
+export class UnsupportedCaptureOptionError extends NeuralDiffError {
+    readonly fields: string[];
+
+    constructor(fields: string[]) {
+        super(ErrorType.UNSUPPORTED_OPTION, `The NeuralDiff daemon does not support these capture options: ${fields.join(', ')}. Upgrade the daemon or remove them from the capture call.`, { operation: 'capture' });
+        this.name = 'UnsupportedCaptureOptionError';
+        this.fields = fields;
+    }
+}
+
+/**
+ * Check capture options for problems the daemon would otherwise fail on (or silently ignore)
+ */
+export function validateCaptureOptions(options: CaptureOptions): string[] {
+    const issues: string[] = [];
+    let pageUrl: URL | null = null;
+
+    try {
+        pageUrl = new URL(options.url);
+    } catch {
+        issues.push(`"url" must be an absolute URL, got "${options.url}"`);
+    }
+
+    if (options.viewport) {
+        for (const flag of DEVICE_FLAGS) {
+            const top = options[flag];
+            const nested = options.viewport[flag];
+            if (top !== undefined && nested !== undefined && top !== nested) {
+                issues.push(`"${flag}" (${top}) conflicts with "viewport.${flag}" (${nested})`);
+            }
+        }
+    }
+
+    (options.cookies || []).forEach((cookie, i) => {
+        if (!cookie.name) issues.push(`"cookies[${i}].name" is required`);
+        if (typeof cookie.value !== 'string') issues.push(`"cookies[${i}].value" must be a string`);
+
+        if (cookie.domain && pageUrl && !domainMatches(pageUrl.hostname, cookie.domain)) {
+            issues.push(`"cookies[${i}]" (${cookie.name}) has domain "${cookie.domain}" which does not match ${pageUrl.hostname}, so the page would never receive it`);
+        }
+        if (cookie.sameSite === 'None' && !cookie.secure) {
+            issues.push(`"cookies[${i}]" (${cookie.name}) uses sameSite "None" and must also set secure: true`);
+        }
+        if (cookie.secure && pageUrl && pageUrl.protocol !== 'https:' && pageUrl.hostname !== 'localhost') {
+            issues.push(`"cookies[${i}]" (${cookie.name}) is secure but ${pageUrl.origin} is not served over https`);
+        }
+    });
+
+    const headerNames = new Map<string, string>();
+    for (const [header, value] of Object.entries(options.headers || {})) {
+        headerNames.set(header.toLowerCase(), value);
+    }
+    for (const [header, value] of Object.entries(options.extraHTTPHeaders || {})) {
+        const existing = headerNames.get(header.toLowerCase());
+        if (existing !== undefined && existing !== value) {
+            issues.push(`header "${header}" is set to different values in "headers" and "extraHTTPHeaders"`);
+        }
+    }
+
+    if (options.geolocation) {
+        const { latitude, longitude, accuracy } = options.geolocation;
+        if (typeof latitude !== 'number' || latitude < -90 || latitude > 90) {
+            issues.push('"geolocation.latitude" must be between -90 and 90');
+        }
+        if (typeof longitude !== 'number' || longitude < -180 || longitude > 180) {
+            issues.push('"geolocation.longitude" must be between -180 and 180');
+        }
+        if (accuracy !== undefined && !(accuracy >= 0)) {
+            issues.push('"geolocation.accuracy" must be a non-negative number');
+        }
+    }
+
+    if (options.httpCredentials && typeof options.httpCredentials.username !== 'string') {
+        issues.push('"httpCredentials.username" must be a string');
+    }
+
+    (options.storageState?.origins || []).forEach((entry, i) => {
+        try {
+            new URL(entry.origin);
+        } catch {
+            issues.push(`"storageState.origins[${i}].origin" must be an absolute origin, got "${entry.origin}"`);
+        }
+    });
+
+    if (options.deviceScaleFactor !== undefined && !(options.deviceScaleFactor > 0)) {
+        issues.push('"deviceScaleFactor" must be a positive number');
+    }
+
+    return issues;
+}
+
+/**
+ * Build the `/api/screenshots/capture` payload, throwing `CaptureOptionsError` on invalid options
+ */
+export function serializeCaptureOptions(options: CaptureOptions): Record<string, unknown> {
+    const issues = validateCaptureOptions(options);
+    if (issues.length > 0) {
+        throw new CaptureOptionsError(issues);
+    }
+
+    const pageUrl = new URL(options.url);
+    const extraHTTPHeaders = { ...options.headers, ...options.extraHTTPHeaders };
+
+    return stripUndefined({
+        url: options.url,
+        viewport: options.viewport || { width: 1280, height: 720 },
+        waitFor: options.waitFor || 'networkidle',
+        fullPage: options.fullPage || false,
+        extraHTTPHeaders: Object.keys(extraHTTPHeaders).length > 0 ? extraHTTPHeaders : undefined,
+        cookies: options.cookies?.map(cookie => serializeCookie(cookie, pageUrl)),
+        userAgent: options.userAgent,
+        deviceScaleFactor: options.deviceScaleFactor ?? options.viewport?.deviceScaleFactor,
+        isMobile: options.isMobile ?? options.viewport?.isMobile,
+        hasTouch: options.hasTouch ?? options.viewport?.hasTouch,
+        isLandscape: options.isLandscape ?? options.viewport?.isLandscape,
+        javascriptEnabled: options.javascriptEnabled,
+        locale: options.locale,
+        timezoneId: options.timezoneId,
+        geolocation: options.geolocation,
+        permissions: options.permissions,
+        httpCredentials: options.httpCredentials,
+        ignoreHTTPSErrors: options.ignoreHTTPSErrors,
+        offline: options.offline,
+        colorScheme: options.colorScheme,
+        reducedMotion: options.reducedMotion,
+        forcedColors: options.forcedColors,
+        storageState: options.storageState?.origins.length ? options.storageState : undefined
+    });
+}
+
+/**
+ * Extract the option names a daemon response says it could not apply
+ */
+export function unsupportedCaptureFields(data: any): string[] {
+    const fields = data?.unsupportedOptions ?? data?.unsupportedFields;
+    return Array.isArray(fields) ? fields.filter((field): field is string => typeof field === 'string') : [];
+}
+
+function serializeCookie(cookie: Cookie, pageUrl: URL): Cookie {
+    return {
+        ...cookie,
+        domain: cookie.domain || pageUrl.hostname,
+        path: cookie.path || '/'
+    };
+}
+
+function domainMatches(hostname: string, domain: string): boolean {
+    const bare = domain.replace(/^\./, '').toLowerCase();
+    const host = hostname.toLowerCase();
+    return host === bare || host.endsWith(`.${bare}`);
+}
+
+function stripUndefined(value: object): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined));
+}
@@ -0,0 +1,365 @@
+/**
+ * NeuralDiff SDK - Command Line Interface
+ * `neuraldiff` subcommands built on NeuroSpec for shell scripts and CI jobs
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { NeuroSpec } from './index';
+import { ErrorType, NeuralDiffError, toNeuralDiffError } from './errors';
+import { buildReportEntries, reportInputs, writeReport } from './reports';
+import type { ReportInput } from './reports';
+import { loadJsonReport, writeHtmlReport } from './html-report';
+import { SDK_VERSION } from './version';
+import type {
+    BatchOperation,
+    BatchOptions,
+    CaptureOptions,
+    CompareOptions,
+    ConfigResolutionOptions,
+    NeuralDiffOptions,
+    ReportEntry,
+    ReportFormat,
+    ReportPolicy,
+    SemanticChange
+} from './types';
+
+/** Everything ran and nothing exceeded the policy */
+export const EXIT_OK = 0;
+/** Changes exceeded the policy, or batch operations failed */
+export const EXIT_CHANGES = 1;
+/** Bad arguments, configuration or daemon errors */
+export const EXIT_ERROR = 2;
+
+export interface CliIO {
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+    cwd: string;
+    env: Record<string, string | undefined>;
+    /** Ends `watch` (the bin wires it to SIGINT/SIGTERM for `watch` only) */
+    signal?: AbortSignal;
+    createClient: (options: Partial<NeuralDiffOptions>, resolution: ConfigResolutionOptions) => NeuroSpec;
+}
+
+interface ParsedArgs {
+    command: string | undefined;
+    positionals: string[];
+    flags: Record<string, string | true>;
+}
+
+type CommandHandler = (args: ParsedArgs, io: CliIO) => Promise<number>;
+
+const BOOLEAN_FLAGS = new Set(['json', 'help', 'version', 'full-page', 'fail-fast']);
+
+const USAGE = `Usage: neuraldiff <command> [options]
+
+Commands:
+  capture <name> [--url <url>] [--viewport <w>x<h>] [--full-page] [--wait-for <selector|ms>]
+  compare <name...> [--threshold <0-1>]
+  batch <operations.json> [--fail-fast] [--retries <n>]
+  approve [--tag <tag>]
+  rollback <name> [--to <version>]
+  watch <url> [--paths <a,b>] [--debounce <ms>] [--interval <ms>]
+  report <results.json> --out <file> [--format junit|sarif|json|html]
+
+Options:
+  --config <path>          Config file (default: nearest .neuraldiff.json)
+  --json                   Print machine-readable JSON
+  --fail-on <severity>     Lowest change severity that fails: low, medium or high (default low)
+  --min-confidence <0-1>   Ignore less certain changes when deciding the exit code
+  --report <file>          Also write a report (compare, batch); format from --format or the extension
+  --format <format>        junit, sarif, json or html
+  -h, --help               Show this help
+  -v, --version            Show the SDK version
+
+Exit codes: 0 no changes beyond the policy, 1 changes beyond the policy or failed operations, 2 errors
+`;
+
+const COMMANDS: Record<string, CommandHandler> = {
+    capture: async (args, io) => {
+        const name = requirePositional(args, 0, 'capture <name>');
+        const options: Partial<CaptureOptions> = {};
+        if (typeof args.flags.url === 'string') options.url = args.flags.url;
+        if (args.flags['full-page']) options.fullPage = true;
+        if (typeof args.flags.viewport === 'string') options.viewport = parseViewport(args.flags.viewport);
+        if (typeof args.flags['wait-for'] === 'string') {
+            const waitFor = args.flags['wait-for'];
+            options.waitFor = /^\d+$/.test(waitFor) ? Number(waitFor) : waitFor;
+        }
+
+        const result = await client(args, io).capture(name, options as CaptureOptions);
+        print(io, args, result, () => `${result.status === 'captured' ? '✓' : '✗'} ${name} captured (${result.hash || result.id})`);
+        return result.status === 'captured' ? EXIT_OK : EXIT_ERROR;
+    },
+
+    compare: async (args, io) => {
+        if (args.positionals.length === 0) throw usageError('compare <name...> needs at least one name');
+        const options: CompareOptions = {};
+        if (args.flags.threshold !== undefined) options.threshold = numberFlag(args, 'threshold');
+
+        const neuro = client(args, io);
+        const results: ReportInput[] = [];
+        for (const name of args.positionals) {
+            results.push(await neuro.compare(name, options));
+        }
+        return finish(results, args, io);
+    },
+
+    batch: async (args, io) => {
+        const file = requirePositional(args, 0, 'batch <operations.json>');
+        const { operations, options } = await readOperations(path.resolve(io.cwd, file));
+        if (args.flags['fail-fast']) options.failFast = true;
+        if (args.flags.retries !== undefined) options.retries = numberFlag(args, 'retries');
+
+        const results = await client(args, io).batch(operations, options);
+        return finish(results, args, io);
+    },
+
+    approve: async (args, io) => {
+        const tag = typeof args.flags.tag === 'string' ? args.flags.tag : undefined;
+        await client(args, io).approveAll(tag ? { tag } : undefined);
+        print(io, args, { approved: true, ...(tag ? { tag } : {}) }, () => `✓ Approved all pending changes${tag ? ` as ${tag}` : ''}`);
+        return EXIT_OK;
+    },
+
+    rollback: async (args, io) => {
+        const name = requirePositional(args, 0, 'rollback <name>');
+        const version = typeof args.flags.to === 'string' ? args.flags.to : undefined;
+        await client(args, io).rollback(name, version ? { version } : undefined);
+        print(io, args, { name, rolledBack: true, ...(version ? { version } : {}) }, () => `✓ Rolled back ${name}${version ? ` to ${version}` : ''}`);
+        return EXIT_OK;
+    },
+
+    watch: async (args, io) => {
+        const url = requirePositional(args, 0, 'watch <url>');
+        const neuro = client(args, io);
+        const watcher = neuro.watch(url, {
+            ...(typeof args.flags.paths === 'string' ? { paths: args.flags.paths.split(',').map(p => p.trim()).filter(Boolean) } : {}),
+            ...(args.flags.debounce !== undefined ? { debounce: numberFlag(args, 'debounce') } : {}),
+            ...(args.flags.interval !== undefined ? { interval: numberFlag(args, 'interval') } : {}),
+            ...(io.signal ? { signal: io.signal } : {}),
+            onError: error => io.stderr(`${formatError(toNeuralDiffError(error))}\n`)
+        });
+
+        try {
+            for await (const change of watcher) {
+                print(io, args, change, () => `${change.hasChanges ? '✗' : '✓'} ${change.path}: ${change.description}`);
+            }
+        } catch (error) {
+            // A lost daemon connection was already printed by onError
+            if (!(error instanceof NeuralDiffError)) throw error;
+            return EXIT_ERROR;
+        } finally {
+            neuro.dispose();
+        }
+        // Only a signal is a clean stop; anything else ending the stream means watching failed
+        return io.signal?.aborted ? EXIT_OK : EXIT_ERROR;
+    },
+
+    report: async (args, io) => {
+        const file = requirePositional(args, 0, 'report <results.json>');
+        const out = args.flags.out;
+        if (typeof out !== 'string') throw usageError('report needs --out <file>');
+
+        const results = reportInputs(await loadJsonReport(path.resolve(io.cwd, file)));
+        return finish(results, { ...args, flags: { ...args.flags, report: out } }, io);
+    }
+};
+
+/**
+ * Run the CLI and resolve with the process exit code
+ */
+export async function runCli(argv: string[], io: Partial<CliIO> = {}): Promise<number> {
+    const resolved: CliIO = {
+        stdout: text => process.stdout.write(text),
+        stderr: text => process.stderr.write(text),
+        cwd: process.cwd(),
+        env: process.env,
+        createClient: (options, resolution) => NeuroSpec.fromConfig(options, resolution),
+        ...io
+    };
+
+    try {
+        const args = parseArgs(argv);
+        if (args.flags.version) {
+            resolved.stdout(`${SDK_VERSION}\n`);
+            return EXIT_OK;
+        }
+        if (args.flags.help) {
+            resolved.stdout(USAGE);
+            return EXIT_OK;
+        }
+        if (!args.command) {
+            resolved.stderr(USAGE);
+            return EXIT_ERROR;
+        }
+
+        const handler = COMMANDS[args.command];
+        if (!handler) throw usageError(`Unknown command "${args.command}"`);
+        return await handler(args, resolved);
+    } catch (error) {
+        const reported = toNeuralDiffError(error, { component: 'CLI', operation: argv[0] || 'run' });
+        resolved.stderr(`${formatError(reported)}\n`);
+        if (reported.type === ErrorType.INVALID_INPUT && reported.context.component === 'CLI') {
+            resolved.stderr('Run `neuraldiff --help` for usage.\n');
+        }
+        return EXIT_ERROR;
+    }
+}
+
+/**
+ * Split argv into a command, positionals and `--flag value` / `--flag=value` / boolean flags
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+    const positionals: string[] = [];
+    const flags: Record<string, string | true> = {};
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i]!;
+        if (arg === '-h') flags.help = true;
+        else if (arg === '-v') flags.version = true;
+        else if (arg.startsWith('--')) {
+            const [name, inline] = splitOnce(arg.slice(2), '=');
+            if (inline !== undefined) {
+                flags[name] = inline;
+            } else if (BOOLEAN_FLAGS.has(name)) {
+                flags[name] = true;
+            } else {
+                const value = argv[i + 1];
+                if (value === undefined || value.startsWith('--')) throw usageError(`--${name} needs a value`);
+                flags[name] = value;
+                i++;
+            }
+        } else {
+            positionals.push(arg);
+        }
+    }
+
+    return { command: positionals.shift(), positionals, flags };
+}
+
+/**
+ * Print results, write the optional report and turn policy failures into the exit code
+ */
+async function finish(results: ReportInput[], args: ParsedArgs, io: CliIO): Promise<number> {
+    const policy = readPolicy(args);
+    const entries = buildReportEntries(results, policy);
+
+    const report = args.flags.report;
+    if (typeof report === 'string') {
+        const file = path.resolve(io.cwd, report);
+        const format = reportFormat(args, file);
+        if (format === 'html') {
+            await writeHtmlReport(file, results, { policy, baseDir: io.cwd });
+        } else {
+            await writeReport(file, format, results, { policy });
+        }
+    }
+
+    print(io, args, entries, () => entries.map(describeEntry).join('\n'));
+
+    return entries.some(entry => entry.status === 'failed' || entry.status === 'error') ? EXIT_CHANGES : EXIT_OK;
+}
+
+function client(args: ParsedArgs, io: CliIO): NeuroSpec {
+    const config = args.flags.config;
+    return io.createClient({}, { cwd: io.cwd, env: io.env, ...(typeof config === 'string' ? { configPath: config } : {}) });
+}
+
+async function readOperations(file: string): Promise<{ operations: BatchOperation[]; options: BatchOptions }> {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+        throw usageError(`Could not read operations from "${file}": ${(error as Error).message}`);
+    }
+
+    // Either a bare array of operations or { operations, failFast?, retries?, retryDelay? }
+    const operations = Array.isArray(parsed) ? parsed : parsed?.operations;
+    if (!Array.isArray(operations) || operations.some(op => typeof op?.name !== 'string' || typeof op?.type !== 'string')) {
+        throw usageError(`"${file}" must contain an array of operations with "type" and "name"`);
+    }
+
+    const options: BatchOptions = {};
+    if (!Array.isArray(parsed)) {
+        if (typeof parsed.failFast === 'boolean') options.failFast = parsed.failFast;
+        if (typeof parsed.retries === 'number') options.retries = parsed.retries;
+        if (typeof parsed.retryDelay === 'number') options.retryDelay = parsed.retryDelay;
+    }
+    return { operations, options };
+}
+
+function readPolicy(args: ParsedArgs): ReportPolicy {
+    const policy: ReportPolicy = {};
+    const failOn = args.flags['fail-on'];
+    if (failOn !== undefined) {
+        if (failOn !== 'low' && failOn !== 'medium' && failOn !== 'high') {
+            throw usageError('--fail-on must be low, medium or high');
+        }
+        policy.failOn = failOn;
+    }
+    if (args.flags['min-confidence'] !== undefined) policy.minConfidence = numberFlag(args, 'min-confidence');
+    return policy;
+}
+
+function reportFormat(args: ParsedArgs, file: string): ReportFormat | 'html' {
+    const format = args.flags.format;
+    if (format === 'junit' || format === 'sarif' || format === 'json' || format === 'html') return format;
+    if (format !== undefined) throw usageError('--format must be junit, sarif, json or html');
+
+    const byExtension: Record<string, ReportFormat | 'html'> = { '.xml': 'junit', '.sarif': 'sarif', '.json': 'json', '.html': 'html', '.htm': 'html' };
+    const inferred = byExtension[path.extname(file).toLowerCase()];
+    if (!inferred) throw usageError(`Can't tell the report format of "${file}"; pass --format`);
+    return inferred;
+}
+
+function describeEntry(entry: ReportEntry): string {
+    const mark = entry.status === 'passed' ? '✓' : entry.status === 'skipped' ? '-' : '✗';
+    const lines = [`${mark} ${entry.name}: ${entry.error || entry.summary}`];
+    for (const change of entry.changes) {
+        lines.push(`    ${describeChange(change)}${entry.failures.includes(change) ? '' : ' (within policy)'}`);
+    }
+    return lines.join('\n');
+}
+
+function describeChange(change: SemanticChange): string {
+    return `[${change.severity}] ${change.type} ${change.element}: ${change.change}`;
+}
+
+function formatError(error: NeuralDiffError): string {
+    const lines = [`✗ ${error.type}: ${error.message}`];
+    if (error.userMessage && error.userMessage !== error.message) lines.push(`  ${error.userMessage}`);
+    for (const recommendation of error.recommendations) lines.push(`  - ${recommendation}`);
+    return lines.join('\n');
+}
+
+function print(io: CliIO, args: ParsedArgs, data: unknown, human: () => string): void {
+    io.stdout(`${args.flags.json ? JSON.stringify(data) : human()}\n`);
+}
+
+function requirePositional(args: ParsedArgs, index: number, usage: string): string {
+    const value = args.positionals[index];
+    if (!value) throw usageError(`Usage: neuraldiff ${usage}`);
+    return value;
+}
+
+function numberFlag(args: ParsedArgs, name: string): number {
+    const value = Number(args.flags[name]);
+    if (typeof args.flags[name] !== 'string' || !Number.isFinite(value)) throw usageError(`--${name} must be a number`);
+    return value;
+}
+
+function parseViewport(value: string): { width: number; height: number } {
+    const match = /^(\d+)x(\d+)$/i.exec(value);
+    if (!match) throw usageError('--viewport must look like 1280x720');
+    return { width: Number(match[1]), height: Number(match[2]) };
+}
+
+function splitOnce(value: string, separator: string): [string, string | undefined] {
+    const index = value.indexOf(separator);
+    return index === -1 ? [value, undefined] : [value.slice(0, index), value.slice(index + 1)];
+}
+
+function usageError(message: string): NeuralDiffError {
+    return new NeuralDiffError(ErrorType.INVALID_INPUT, message, { component: 'CLI', operation: 'parseArgs' });
+}
@@ -0,0 +1,115 @@
+/**
+ * NeuralDiff SDK - Comparison Options
+ * Merges comparison settings, applies ignore rules to daemon results and judges local pixel diffs
+ */
+
+import type { CompareOptions, IgnoreRule, PixelDiffResult, Region, ResolvedCompareOptions, SemanticChange } from './types';
+
+export const DEFAULT_THRESHOLD = 0.1;
+
+/**
+ * Merge global comparison defaults, config-file ignore rules and per-call options.
+ *
+ * Scalar options from the call win; ignored regions and selectors accumulate so a
+ * per-call region never un-ignores one from the config.
+ */
+export function mergeCompareOptions(
+    global: CompareOptions | undefined,
+    ignore: IgnoreRule[] | undefined,
+    options: CompareOptions | undefined
+): ResolvedCompareOptions {
+    const merged: ResolvedCompareOptions = { ...global, ...options };
+
+    const regions = [
+        ...(global?.ignoredRegions || []),
+        ...(ignore || []).flatMap(rule => (rule.region ? [rule.region] : [])),
+        ...(options?.ignoredRegions || [])
+    ];
+    const selectors = Array.from(new Set([
+        ...(global?.ignoredSelectors || []),
+        ...(ignore || []).flatMap(rule => (rule.selector ? [rule.selector] : [])),
+        ...(options?.ignoredSelectors || [])
+    ]));
+    const types = Array.from(new Set((ignore || []).flatMap(rule => (rule.type ? [rule.type] : []))));
+
+    if (regions.length > 0) merged.ignoredRegions = regions;
+    if (selectors.length > 0) merged.ignoredSelectors = selectors;
+    if (types.length > 0) merged.ignoredTypes = types;
+
+    const imageProcessing = { ...global?.imageProcessing, ...options?.imageProcessing };
+    if (Object.keys(imageProcessing).length > 0) merged.imageProcessing = imageProcessing;
+
+    const includeAA = options?.includeAA ?? options?.includeAntialiasing ?? global?.includeAA ?? global?.includeAntialiasing;
+    if (includeAA !== undefined) {
+        merged.includeAA = includeAA;
+        merged.includeAntialiasing = includeAA;
+    }
+
+    return merged;
+}
+
+/**
+ * Build the comparison fields of the `/api/analyze/working-directory` payload
+ */
+export function serializeCompareOptions(options: ResolvedCompareOptions): Record<string, unknown> {
+    const payload: Record<string, unknown> = {
+        algorithm: options.algorithm || 'hybrid',
+        threshold: options.threshold ?? DEFAULT_THRESHOLD,
+        ignoredRegions: options.ignoredRegions,
+        ignoredSelectors: options.ignoredSelectors,
+        ignoredTypes: options.ignoredTypes,
+        includeAA: options.includeAA,
+        alpha: options.alpha,
+        diffColor: options.diffColor,
+        diffColorAlt: options.diffColorAlt,
+        diffMask: options.diffMask
+    };
+
+    return Object.fromEntries(Object.entries(payload).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Drop changes located entirely inside an ignored region or on an ignored selector.
+ *
+ * Ignored selectors are also sent to the daemon, which masks them while diffing; here they
+ * match the `selector` the daemon resolved for a change, compared as exact strings. Changes
+ * without a resolved selector are only filtered by region.
+ */
+export function filterIgnoredChanges(changes: SemanticChange[], options: ResolvedCompareOptions): SemanticChange[] {
+    const regions = options.ignoredRegions || [];
+    const selectors = options.ignoredSelectors || [];
+
+    return changes.filter(change => {
+        if (change.selector && selectors.includes(change.selector)) return false;
+        const coordinates = change.coordinates;
+        return !coordinates || !regions.some(region => regionContains(region, coordinates));
+    });
+}
+
+/**
+ * One change per changed region of a local pixel diff. Severity follows the region's share of
+ * the image: 10% or more is high, 1% or more medium, anything smaller low.
+ */
+export function pixelDiffChanges(name: string, result: PixelDiffResult): SemanticChange[] {
+    return result.regions.map(region => {
+        const share = (region.width * region.height) / Math.max(1, result.totalPixels);
+        return {
+            element: name,
+            change: `${region.width}x${region.height}px region changed at (${region.x}, ${region.y})`,
+            severity: share >= 0.1 ? 'high' : share >= 0.01 ? 'medium' : 'low',
+            confidence: 1,
+            type: 'content',
+            coordinates: region
+        };
+    });
+}
+
+/**
+ * Whether `inner` lies completely within `outer`
+ */
+export function regionContains(outer: Region, inner: Region): boolean {
+    return inner.x >= outer.x &&
+        inner.y >= outer.y &&
+        inner.x + inner.width <= outer.x + outer.width &&
+        inner.y + inner.height <= outer.y + outer.height;
+}
@@ -0,0 +1,280 @@
+/**
+ * NeuralDiff SDK - Configuration
+ * Resolves SDK options from `.neuraldiff.json`, environment variables and explicit options
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ErrorType, NeuralDiffError } from './errors';
+import type { ConfigFile, ConfigResolutionOptions, NeuralDiffOptions } from './types';
+
+export const CONFIG_FILE_NAME = '.neuraldiff.json';
+
+const CONFIG_KEYS = ['$schema', 'project', 'baseUrl', 'viewports', 'ignore', 'capture', 'comparison'];
+const IGNORE_TYPES = ['dynamic', 'animated', 'advertisement'];
+const ALGORITHMS = ['fast', 'accurate', 'hybrid'];
+
+/**
+ * Thrown when a config file or environment variable does not match the expected schema
+ */
+export class ConfigValidationError extends NeuralDiffError {
+    readonly source: string;
+    readonly issues: string[];
+
+    constructor(source: string, issues: string[]) {
+        super(ErrorType.INVALID_CONFIG, `Invalid NeuralDiff configuration in ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`, { operation: 'resolveConfig', metadata: { source } });
+        this.name = 'ConfigValidationError';
+        this.source = source;
+        this.issues = issues;
+    }
+}
+
+/**
+ * Walk up from `cwd` looking for `.neuraldiff.json`
+ */
+export function findConfigFile(cwd: string = process.cwd()): string | null {
+    let dir = path.resolve(cwd);
+
+    for (;;) {
+        const candidate = path.join(dir, CONFIG_FILE_NAME);
+        if (fs.existsSync(candidate)) return candidate;
+
+        const parent = path.dirname(dir);
+        if (parent === dir) return null;
+        dir = parent;
+    }
+}
+
+/**
+ * Read and validate a config file
+ */
+export function loadConfigFile(filePath: string): ConfigFile {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error: any) {
+        throw new ConfigValidationError(filePath, [`could not be parsed: ${error?.message || error}`]);
+    }
+
+    const issues = validateConfigFile(parsed);
+    if (issues.length > 0) {
+        throw new ConfigValidationError(filePath, issues);
+    }
+
+    return parsed as ConfigFile;
+}
+
+/**
+ * Check a parsed config against the `ConfigFile` schema, returning one message per problem
+ */
+export function validateConfigFile(value: unknown): string[] {
+    const issues: string[] = [];
+
+    if (!isObject(value)) {
+        return ['config must be a JSON object'];
+    }
+
+    for (const key of Object.keys(value)) {
+        if (!CONFIG_KEYS.includes(key)) {
+            issues.push(`"${key}" is not a recognised option (expected one of ${CONFIG_KEYS.slice(1).join(', ')})`);
+        }
+    }
+
+    if (value.project !== undefined && typeof value.project !== 'string') {
+        issues.push('"project" must be a string');
+    }
+
+    if (value.baseUrl !== undefined && !isUrl(value.baseUrl)) {
+        issues.push('"baseUrl" must be an absolute URL, e.g. "http://localhost:3000"');
+    }
+
+    if (value.viewports !== undefined) {
+        if (!Array.isArray(value.viewports)) {
+            issues.push('"viewports" must be an array');
+        } else {
+            value.viewports.forEach((viewport, i) => validateViewport(viewport, `viewports[${i}]`, issues));
+        }
+    }
+
+    if (value.ignore !== undefined) {
+        if (!Array.isArray(value.ignore)) {
+            issues.push('"ignore" must be an array');
+        } else {
+            value.ignore.forEach((rule, i) => validateIgnoreRule(rule, `ignore[${i}]`, issues));
+        }
+    }
+
+    if (value.capture !== undefined) {
+        if (!isObject(value.capture)) {
+            issues.push('"capture" must be an object');
+        } else {
+            if (value.capture.url !== undefined && typeof value.capture.url !== 'string') {
+                issues.push('"capture.url" must be a string');
+            }
+            if (value.capture.viewport !== undefined) {
+                validateViewport(value.capture.viewport, 'capture.viewport', issues);
+            }
+        }
+    }
+
+    if (value.comparison !== undefined) {
+        if (!isObject(value.comparison)) {
+            issues.push('"comparison" must be an object');
+        } else {
+            const { algorithm, threshold, ignoredRegions } = value.comparison;
+            if (algorithm !== undefined && !ALGORITHMS.includes(algorithm as string)) {
+                issues.push(`"comparison.algorithm" must be one of ${ALGORITHMS.join(', ')}`);
+            }
+            if (threshold !== undefined && !(typeof threshold === 'number' && threshold >= 0 && threshold <= 1)) {
+                issues.push('"comparison.threshold" must be a number between 0 and 1');
+            }
+            if (ignoredRegions !== undefined) {
+                if (!Array.isArray(ignoredRegions)) {
+                    issues.push('"comparison.ignoredRegions" must be an array');
+                } else {
+                    ignoredRegions.forEach((region, i) => validateRegion(region, `comparison.ignoredRegions[${i}]`, issues));
+                }
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Read `NEURALDIFF_*` environment variables
+ */
+export function readEnvOptions(env: Record<string, string | undefined> = process.env): Partial<NeuralDiffOptions> {
+    const options: Partial<NeuralDiffOptions> = {};
+    const issues: string[] = [];
+
+    if (env.NEURALDIFF_API_KEY) options.apiKey = env.NEURALDIFF_API_KEY;
+
+    if (env.NEURALDIFF_API_URL) {
+        if (isUrl(env.NEURALDIFF_API_URL)) {
+            options.apiUrl = env.NEURALDIFF_API_URL;
+        } else {
+            issues.push(`NEURALDIFF_API_URL must be an absolute URL, got "${env.NEURALDIFF_API_URL}"`);
+        }
+    }
+
+    if (env.NEURALDIFF_CONCURRENCY) {
+        const concurrency = Number(env.NEURALDIFF_CONCURRENCY);
+        if (Number.isInteger(concurrency) && concurrency > 0) {
+            options.concurrency = concurrency;
+        } else {
+            issues.push(`NEURALDIFF_CONCURRENCY must be a positive integer, got "${env.NEURALDIFF_CONCURRENCY}"`);
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new ConfigValidationError('environment', issues);
+    }
+
+    return options;
+}
+
+/**
+ * Build the effective `NeuralDiffOptions`: config file, then environment, then explicit options
+ */
+export function resolveConfig(options: Partial<NeuralDiffOptions> = {}, resolution: ConfigResolutionOptions = {}): NeuralDiffOptions {
+    const configPath = resolution.configPath
+        ? path.resolve(resolution.cwd || process.cwd(), resolution.configPath)
+        : findConfigFile(resolution.cwd);
+    const file = configPath ? loadConfigFile(configPath) : {};
+    const env = readEnvOptions(resolution.env || process.env);
+
+    const fromFile: Partial<NeuralDiffOptions> = {};
+    if (file.project !== undefined) fromFile.project = file.project;
+    if (file.baseUrl !== undefined) fromFile.baseUrl = file.baseUrl;
+    if (file.viewports !== undefined) fromFile.viewports = file.viewports;
+    if (file.ignore !== undefined) fromFile.ignore = file.ignore;
+
+    const resolved: NeuralDiffOptions = {
+        apiKey: '',
+        ...fromFile,
+        ...env,
+        ...definedOnly(options)
+    };
+
+    const capture = { ...file.capture, ...options.capture };
+    if (Object.keys(capture).length > 0) resolved.capture = capture;
+
+    const comparison = { ...file.comparison, ...options.comparison };
+    if (Object.keys(comparison).length > 0) resolved.comparison = comparison;
+
+    return resolved;
+}
+
+function validateViewport(value: unknown, at: string, issues: string[]): void {
+    if (!isObject(value)) {
+        issues.push(`"${at}" must be an object with width and height`);
+        return;
+    }
+    if (value.name !== undefined && typeof value.name !== 'string') {
+        issues.push(`"${at}.name" must be a string`);
+    }
+    for (const key of ['width', 'height']) {
+        if (!isPositiveNumber(value[key])) {
+            issues.push(`"${at}.${key}" must be a positive number`);
+        }
+    }
+    if (value.deviceScaleFactor !== undefined && !isPositiveNumber(value.deviceScaleFactor)) {
+        issues.push(`"${at}.deviceScaleFactor" must be a positive number`);
+    }
+}
+
+function validateRegion(value: unknown, at: string, issues: string[]): void {
+    if (!isObject(value)) {
+        issues.push(`"${at}" must be an object with x, y, width and height`);
+        return;
+    }
+    for (const key of ['x', 'y', 'width', 'height']) {
+        if (typeof value[key] !== 'number' || (value[key] as number) < 0) {
+            issues.push(`"${at}.${key}" must be a non-negative number`);
+        }
+    }
+}
+
+function validateIgnoreRule(value: unknown, at: string, issues: string[]): void {
+    if (!isObject(value)) {
+        issues.push(`"${at}" must be an object`);
+        return;
+    }
+    if (value.selector === undefined && value.region === undefined && value.type === undefined) {
+        issues.push(`"${at}" needs at least one of selector, region or type`);
+    }
+    if (value.selector !== undefined && (typeof value.selector !== 'string' || value.selector.trim() === '')) {
+        issues.push(`"${at}.selector" must be a non-empty string`);
+    }
+    if (value.region !== undefined) {
+        validateRegion(value.region, `${at}.region`, issues);
+    }
+    if (value.type !== undefined && !IGNORE_TYPES.includes(value.type as string)) {
+        issues.push(`"${at}.type" must be one of ${IGNORE_TYPES.join(', ')}`);
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveNumber(value: unknown): boolean {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isUrl(value: unknown): boolean {
+    if (typeof value !== 'string') return false;
+    try {
+        new URL(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function definedOnly<T extends object>(value: T): Partial<T> {
+    return Object.fromEntries(
+        Object.entries(value).filter(([, v]) => v !== undefined)
+    ) as Partial<T>;
+}
@@ -0,0 +1,154 @@
+/**
+ * NeuralDiff SDK - Cypress Commands
+ * Browser-side `cy.neuralCapture` / `cy.neuralCompare`; the work happens in the Node tasks from `neuraldiff/cypress`
+ */
+
+import type { CaptureOptions, CaptureResult, CompareOptions, ComparisonResult, Cookie } from './types';
+
+// Nothing here may import the Node side of the SDK: this file is bundled into the spec
+
+export const CYPRESS_TASKS = {
+  capture: 'neuraldiff:capture',
+  compare: 'neuraldiff:compare',
+  updateBaseline: 'neuraldiff:updateBaseline'
+} as const;
+
+export interface CypressCaptureTask {
+  name: string;
+  options: CaptureOptions;
+}
+
+export interface CypressCompareTask extends CypressCaptureTask {
+  compare?: CompareOptions;
+  /** Store the page as the baseline when none exists yet (default true) */
+  createMissing?: boolean;
+}
+
+export interface NeuralCommandOptions extends CompareOptions {
+  /** Capture settings applied over what was read from the page */
+  capture?: Partial<Omit<CaptureOptions, 'url'>>;
+  createMissing?: boolean;
+}
+
+/** Merge into `Cypress.Chainable` to type the commands */
+export interface NeuralDiffChainable {
+  neuralCapture(name: string, options?: Partial<Omit<CaptureOptions, 'url'>>): CypressChainable<CaptureResult>;
+  neuralCompare(name: string, options?: NeuralCommandOptions): CypressChainable<ComparisonResult>;
+  neuralUpdateBaseline(name: string): CypressChainable<null>;
+}
+
+// Structural subsets of the Cypress globals, so the SDK doesn't depend on cypress
+
+export interface CypressChainable<T> {
+  then<R>(fn: (value: T) => R | CypressChainable<R>): CypressChainable<R>;
+}
+
+export interface CypressCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  secure: boolean;
+  httpOnly: boolean;
+  expiry?: number;
+  sameSite?: 'no_restriction' | 'lax' | 'strict';
+}
+
+export interface CypressStatic {
+  Commands: { add(name: string, fn: (...args: any[]) => unknown): void };
+  config(key: 'viewportWidth' | 'viewportHeight'): number;
+  log(options: { name: string; message: unknown; consoleProps?: () => Record<string, unknown> }): unknown;
+}
+
+export interface CypressCy {
+  url(): CypressChainable<string>;
+  window(options?: { log?: boolean }): CypressChainable<Window>;
+  getCookies(options?: { log?: boolean }): CypressChainable<CypressCookie[]>;
+  task(name: string, arg: unknown, options?: { log?: boolean; timeout?: number }): CypressChainable<any>;
+}
+
+const SAME_SITE: Record<NonNullable<CypressCookie['sameSite']>, NonNullable<Cookie['sameSite']>> = {
+  no_restriction: 'None',
+  lax: 'Lax',
+  strict: 'Strict'
+};
+
+/**
+ * Register the commands; call from `cypress/support/e2e.ts` with the `Cypress` and `cy` globals
+ */
+export function registerNeuralDiffCommands(Cypress: CypressStatic, cy: CypressCy, options: { timeout?: number } = {}): void {
+  const timeout = options.timeout ?? 120000;
+
+  Cypress.Commands.add('neuralCapture', (name: string, capture: Partial<Omit<CaptureOptions, 'url'>> = {}) =>
+    readPageState(Cypress, cy)
+      .then(state => {
+        const task: CypressCaptureTask = { name, options: { ...state, ...capture } };
+        return cy.task(CYPRESS_TASKS.capture, task, { log: false, timeout });
+      })
+      .then((result: CaptureResult) => {
+        Cypress.log({ name: 'neuralCapture', message: `${name} ${result.status}`, consoleProps: () => ({ result }) });
+        return result;
+      }));
+
+  Cypress.Commands.add('neuralCompare', (name: string, commandOptions: NeuralCommandOptions = {}) => {
+    const { capture, createMissing, ...compare } = commandOptions;
+    return readPageState(Cypress, cy)
+      .then(state => {
+        const task: CypressCompareTask = {
+          name,
+          options: { ...state, ...capture },
+          compare,
+          ...(createMissing !== undefined ? { createMissing } : {})
+        };
+        return cy.task(CYPRESS_TASKS.compare, task, { log: false, timeout });
+      })
+      .then((result: ComparisonResult) => {
+        const changes = result.changes.map(change => `[${change.severity}] ${change.element}: ${change.change}`);
+        Cypress.log({
+          name: 'neuralCompare',
+          message: result.hasChanges ? `${name}: ${result.summary}` : `${name}: no changes`,
+          consoleProps: () => ({ result, changes })
+        });
+        return result;
+      });
+  });
+
+  Cypress.Commands.add('neuralUpdateBaseline', (name: string) =>
+    cy.task(CYPRESS_TASKS.updateBaseline, { name }, { log: false, timeout }).then(() => {
+      Cypress.log({ name: 'neuralUpdateBaseline', message: name });
+      return null;
+    }));
+}
+
+/**
+ * URL, viewport, cookies, localStorage and color scheme of the app under test
+ */
+export function readPageState(Cypress: CypressStatic, cy: CypressCy): CypressChainable<CaptureOptions> {
+  return cy.url().then(url => cy.getCookies({ log: false }).then(cookies => cy.window({ log: false }).then(win => {
+    const localStorage = Object.keys(win.localStorage).map(key => ({ name: key, value: win.localStorage.getItem(key) ?? '' }));
+
+    const state: CaptureOptions = {
+      url,
+      viewport: { width: Cypress.config('viewportWidth'), height: Cypress.config('viewportHeight') },
+      deviceScaleFactor: win.devicePixelRatio,
+      colorScheme: win.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light',
+      ...(cookies.length > 0 ? { cookies: cookies.map(toCookie) } : {}),
+      ...(localStorage.length > 0 ? { storageState: { origins: [{ origin: new URL(url).origin, localStorage }] } } : {})
+    };
+    return state;
+  })));
+}
+
+function toCookie(cookie: CypressCookie): Cookie {
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain,
+    path: cookie.path,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+    ...(cookie.expiry !== undefined ? { expires: cookie.expiry } : {}),
+    // Browsers drop SameSite=None cookies that aren't secure, and capture validation rejects them
+    ...(cookie.sameSite && (cookie.sameSite !== 'no_restriction' || cookie.secure) ? { sameSite: SAME_SITE[cookie.sameSite] } : {})
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * NeuralDiff SDK - Cypress Plugin
+ * Node-side tasks behind `cy.neuralCapture` / `cy.neuralCompare`, registered from `setupNodeEvents`
+ */
+
+import { NeuroSpec } from './index';
+import { isMissingBaselineError } from './errors';
+import { CYPRESS_TASKS } from './cypress-support';
+import type { CypressCaptureTask, CypressCompareTask } from './cypress-support';
+import type { CaptureResult, ComparisonResult } from './types';
+
+export { CYPRESS_TASKS } from './cypress-support';
+
+/** Cypress's `on` from `setupNodeEvents(on, config)` */
+export type CypressPluginOn = (event: string, handler: any) => void;
+
+export interface NeuralDiffPluginOptions {
+  /** Client to use, or a factory called once (default `NeuroSpec.fromConfig()`) */
+  client?: NeuroSpec | (() => NeuroSpec);
+}
+
+/**
+ * Register the NeuralDiff tasks. Returns `config` unchanged so it can be the last call in `setupNodeEvents`.
+ */
+export function neuralDiffPlugin<C>(on: CypressPluginOn, config: C, options: NeuralDiffPluginOptions = {}): C {
+  let neuro: NeuroSpec | null = null;
+  const getClient = () => {
+    if (!neuro) {
+      neuro = options.client instanceof NeuroSpec ? options.client : options.client ? options.client() : NeuroSpec.fromConfig();
+    }
+    return neuro;
+  };
+
+  on('task', neuralDiffTasks(getClient));
+  on('after:run', () => {
+    if (neuro && neuro !== options.client) neuro.dispose();
+  });
+
+  return config;
+}
+
+/**
+ * The task handlers themselves, for setups that register tasks through their own `on('task')`.
+ * Cypress tasks must not resolve with undefined, so `updateBaseline` resolves with null.
+ */
+export function neuralDiffTasks(getClient: () => NeuroSpec) {
+  return {
+    [CYPRESS_TASKS.capture]: ({ name, options }: CypressCaptureTask): Promise<CaptureResult> =>
+      getClient().capture(name, options),
+
+    [CYPRESS_TASKS.compare]: async ({ name, options, compare, createMissing = true }: CypressCompareTask): Promise<ComparisonResult> => {
+      const neuro = getClient();
+      await neuro.capture(name, options);
+      try {
+        return await neuro.compare(name, compare);
+      } catch (error) {
+        if (!createMissing || !isMissingBaselineError(error)) throw error;
+        await neuro.updateBaseline(name);
+        return { name, hasChanges: false, duration: 0, summary: 'Baseline created', changes: [], confidence: 1 };
+      }
+    },
+
+    [CYPRESS_TASKS.updateBaseline]: async ({ name }: { name: string }): Promise<null> => {
+      await getClient().updateBaseline(name);
+      return null;
+    }
+  };
+}
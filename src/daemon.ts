@@ -0,0 +1,113 @@
+/**
+ * NeuralDiff SDK - Daemon Discovery
+ * Finds a running daemon, reads its health report and checks protocol compatibility
+ */
+
+import { ErrorType, NeuralDiffError } from './errors';
+import { SDK_VERSION } from './version';
+import type { DaemonInfo, NeuralDiffOptions } from './types';
+
+export const DEFAULT_DAEMON_URL = 'http://localhost:7878';
+
+export const DEFAULT_DAEMON_CANDIDATES = [
+    DEFAULT_DAEMON_URL,
+    'http://127.0.0.1:7878',
+    'http://localhost:7879' // Fallback port
+];
+
+export const DAEMON_URL_ENV = 'NEURALDIFF_DAEMON_URL';
+
+/** Daemon protocol versions this SDK can talk to */
+export const SUPPORTED_PROTOCOL_VERSIONS = { min: 1, max: 1 };
+
+export interface HealthProbe {
+    (url: string): Promise<unknown>;
+}
+
+/**
+ * Daemon URLs to try, in order: an explicit `apiUrl`, then `NEURALDIFF_DAEMON_URL`,
+ * then `daemon.candidates` (or the default local ports)
+ */
+export function daemonCandidates(options: Pick<NeuralDiffOptions, 'apiUrl' | 'daemon'>, env: Record<string, string | undefined> = process.env): string[] {
+    if (options.apiUrl) return [options.apiUrl];
+
+    const override = env[DAEMON_URL_ENV];
+    if (override) return [override];
+
+    return options.daemon?.candidates?.length ? options.daemon.candidates : DEFAULT_DAEMON_CANDIDATES;
+}
+
+/**
+ * Probe each candidate's `/health` in order and describe the first one that answers
+ */
+export async function discoverDaemon(candidates: string[], probe: HealthProbe): Promise<DaemonInfo> {
+    const failures: string[] = [];
+
+    for (const candidate of candidates) {
+        const url = candidate.replace(/\/+$/, '');
+        const startTime = Date.now();
+        try {
+            const health = await probe(url);
+            return describeDaemon(url, health, Date.now() - startTime);
+        } catch (error: any) {
+            failures.push(`${url} (${error?.message || error})`);
+        }
+    }
+
+    throw new NeuralDiffError(
+        ErrorType.DAEMON_UNAVAILABLE,
+        `No NeuralDiff daemon answered at ${failures.join(', ')}`,
+        { component: 'DaemonDiscovery', operation: 'connect', metadata: { candidates } }
+    );
+}
+
+/**
+ * Turn a `/health` response into `DaemonInfo`, flagging protocol or SDK version mismatches
+ */
+export function describeDaemon(url: string, health: any, latency = 0): DaemonInfo {
+    const warnings: string[] = [];
+    let compatible = true;
+
+    const protocolVersion = typeof health?.protocolVersion === 'number' ? health.protocolVersion : undefined;
+    if (protocolVersion === undefined) {
+        warnings.push('The daemon did not report a protocol version; assuming it is compatible');
+    } else if (protocolVersion < SUPPORTED_PROTOCOL_VERSIONS.min || protocolVersion > SUPPORTED_PROTOCOL_VERSIONS.max) {
+        compatible = false;
+        warnings.push(
+            `The daemon speaks protocol ${protocolVersion} but this SDK (${SDK_VERSION}) supports ` +
+            `${SUPPORTED_PROTOCOL_VERSIONS.min}-${SUPPORTED_PROTOCOL_VERSIONS.max}`
+        );
+    }
+
+    const minSdkVersion = typeof health?.minSdkVersion === 'string' ? health.minSdkVersion : undefined;
+    if (minSdkVersion && compareVersions(SDK_VERSION, minSdkVersion) < 0) {
+        compatible = false;
+        warnings.push(`The daemon requires SDK ${minSdkVersion} or newer (this is ${SDK_VERSION})`);
+    }
+
+    return {
+        url,
+        status: typeof health?.status === 'string' ? health.status : 'ok',
+        version: typeof health?.version === 'string' ? health.version : 'unknown',
+        ...(protocolVersion !== undefined ? { protocolVersion } : {}),
+        capabilities: Array.isArray(health?.capabilities) ? health.capabilities.filter((c: unknown) => typeof c === 'string') : [],
+        compatible,
+        warnings,
+        latency
+    };
+}
+
+/**
+ * Compare dotted numeric versions, ignoring pre-release suffixes
+ */
+export function compareVersions(a: string, b: string): number {
+    const parse = (version: string) => version.split('-')[0]!.split('.').map(part => parseInt(part, 10) || 0);
+    const left = parse(a);
+    const right = parse(b);
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const diff = (left[i] ?? 0) - (right[i] ?? 0);
+        if (diff !== 0) return Math.sign(diff);
+    }
+    return 0;
+}
@@ -2,23 +2,115 @@
  * Error handling integration for NeuralDiff SDK
  */
 
-import { 
-  ErrorType, 
-  NeuralDiffError, 
+import {
+  ErrorType,
+  NeuralDiffError,
   ErrorContext,
-  ErrorResponse 
-} from '../../shared-types/src/errors';
-import { ErrorHandler } from '../../shared-utils/src/error-handler';
-import { withRetry, RetryConfigs } from '../../shared-utils/src/retry';
+  ErrorResponse,
+  mapHttpStatusToErrorType,
+  toNeuralDiffError
+} from './errors';
+import axios from 'axios';
+import { daemonCandidates, discoverDaemon } from './daemon';
+import { resolveRetryPolicy, withRetry } from './retry';
+import type { NeuralDiffOptions, RetryPolicy } from './types';
+
+export interface ErrorHandlerOptions {
+  enableFallbacks?: boolean;
+  /** Re-run the failed operation passed to `handleError` when a retryable network error occurs */
+  enableRetries?: boolean;
+  /** Backoff for those re-runs; defaults to the SDK's retry policy */
+  retry?: RetryPolicy;
+  logErrors?: boolean;
+  notifyUsers?: boolean;
+}
+
+/**
+ * Normalizes errors into `NeuralDiffError`s and tries the fallbacks subclasses provide
+ * before reporting a failure.
+ */
+export class ErrorHandler {
+  protected readonly options: Required<ErrorHandlerOptions>;
+
+  constructor(options: ErrorHandlerOptions = {}) {
+    this.options = {
+      enableFallbacks: options.enableFallbacks ?? true,
+      enableRetries: options.enableRetries ?? true,
+      retry: options.retry ?? {},
+      logErrors: options.logErrors ?? false,
+      notifyUsers: options.notifyUsers ?? false
+    };
+  }
+
+  /**
+   * `operation`, when given, is what failed; retryable network errors run it again
+   */
+  async handleError(error: unknown, context?: Partial<ErrorContext>, operation?: () => Promise<unknown>): Promise<ErrorResponse> {
+    const neuralDiffError = toNeuralDiffError(error, context);
+
+    if (this.options.logErrors) {
+      console.error(`[NeuralDiff] ${neuralDiffError.type}: ${neuralDiffError.message}`);
+    }
+
+    if (this.options.enableFallbacks) {
+      const recovered = await this.attemptFallback(neuralDiffError, operation);
+      if (recovered !== undefined) {
+        return {
+          success: true,
+          data: recovered,
+          warning: `Recovered from ${neuralDiffError.type}: ${neuralDiffError.userMessage}`
+        };
+      }
+    }
+
+    if (this.options.notifyUsers) {
+      console.warn([neuralDiffError.userMessage, ...neuralDiffError.recommendations.map(rec => `  - ${rec}`)].join('\n'));
+    }
+
+    return { success: false, error: neuralDiffError };
+  }
+
+  /**
+   * Resolve with a replacement result, or undefined when the error can't be recovered from
+   */
+  protected async attemptFallback(error: NeuralDiffError, operation?: () => Promise<unknown>): Promise<unknown> {
+    try {
+      if (error.type === ErrorType.DAEMON_UNAVAILABLE) {
+        return await this.attemptDaemonConnection();
+      }
+      if (error.type === ErrorType.NETWORK_ERROR && error.retryable && this.options.enableRetries && operation) {
+        return await this.retryNetworkOperation(error, operation);
+      }
+    } catch {
+      // the fallback failed too; report the original error
+    }
+    return undefined;
+  }
+
+  protected async attemptDaemonConnection(): Promise<unknown> {
+    return undefined;
+  }
+
+  protected async retryNetworkOperation(error: NeuralDiffError, operation: () => Promise<unknown>): Promise<unknown> {
+    return withRetry(operation, resolveRetryPolicy(this.options.retry), { context: error.context });
+  }
+}
 
 export class SDKErrorHandler extends ErrorHandler {
-  constructor() {
+  private readonly daemonOptions: Pick<NeuralDiffOptions, 'apiUrl' | 'daemon'>;
+
+  /**
+   * `daemonOptions` picks the daemon the same way `NeuroSpec` does: `apiUrl`, then
+   * `NEURALDIFF_DAEMON_URL`, then `daemon.candidates`
+   */
+  constructor(daemonOptions: Pick<NeuralDiffOptions, 'apiUrl' | 'daemon'> = {}) {
     super({
       enableFallbacks: true,
       enableRetries: true,
       logErrors: false, // SDK should not log by default
       notifyUsers: false // Let the consuming application handle notifications
     });
+    this.daemonOptions = daemonOptions;
   }
 
   async handleDaemonConnectionError(error: Error, context: {
@@ -32,8 +124,8 @@ export class SDKErrorHandler extends ErrorHandler {
       metadata: { daemonUrl: context.daemonUrl }
     };
 
-    const neuralDiffError = error instanceof NeuralDiffError 
-      ? error 
+    const neuralDiffError = error instanceof NeuralDiffError
+      ? error
       : new NeuralDiffError(
           ErrorType.DAEMON_UNAVAILABLE,
           error.message,
@@ -48,30 +140,32 @@ export class SDKErrorHandler extends ErrorHandler {
     endpoint: string;
     method: string;
     statusCode?: number;
+    /** Re-runs the request if the error turns out to be a retryable network failure */
+    retry?: () => Promise<unknown>;
   }): Promise<ErrorResponse> {
     const errorContext: ErrorContext = {
       component: 'APIClient',
       operation: `${context.method} ${context.endpoint}`,
       timestamp: new Date().toISOString(),
-      metadata: { 
+      metadata: {
         endpoint: context.endpoint,
         method: context.method,
         statusCode: context.statusCode
       }
     };
 
-    let errorType: ErrorType;
-    if (context.statusCode) {
-      errorType = this.mapHttpStatusToErrorType(context.statusCode);
-    } else {
-      errorType = ErrorType.NETWORK_ERROR;
-    }
+    const errorType = context.statusCode
+      ? mapHttpStatusToErrorType(context.statusCode)
+      : ErrorType.NETWORK_ERROR;
 
-    const neuralDiffError = error instanceof NeuralDiffError 
-      ? error 
-      : new NeuralDiffError(errorType, error.message, errorContext, { cause: error });
+    const neuralDiffError = error instanceof NeuralDiffError
+      ? error
+      : new NeuralDiffError(errorType, error.message, errorContext, {
+          cause: error,
+          ...(context.statusCode ? { statusCode: context.statusCode } : {})
+        });
 
-    return this.handleError(neuralDiffError, errorContext);
+    return this.handleError(neuralDiffError, errorContext, context.retry);
   }
 
   async handleFrameworkIntegrationError(error: Error, context: {
@@ -83,14 +177,14 @@ export class SDKErrorHandler extends ErrorHandler {
       component: `${context.framework}Integration`,
       operation: context.operation,
       timestamp: new Date().toISOString(),
-      metadata: { 
+      metadata: {
         framework: context.framework,
         component: context.component
       }
     };
 
-    const neuralDiffError = error instanceof NeuralDiffError 
-      ? error 
+    const neuralDiffError = error instanceof NeuralDiffError
+      ? error
       : new NeuralDiffError(
           ErrorType.COMPARISON_FAILED,
           error.message,
@@ -101,64 +195,22 @@ export class SDKErrorHandler extends ErrorHandler {
     return this.handleError(neuralDiffError, errorContext);
   }
 
-  // Enhanced retry methods with SDK-specific implementations
-  protected async attemptDaemonConnection(): Promise<any> {
-    const daemonUrls = [
-      'http://localhost:7878',
-      'http://127.0.0.1:7878',
-      'http://localhost:7879' // Fallback port
-    ];
-
-    for (const url of daemonUrls) {
-      try {
-        const response = await fetch(`${url}/health`);
-        if (response.ok) {
-          return { daemonUrl: url, status: 'connected' };
-        }
-      } catch (error) {
-        continue;
-      }
-    }
-
-    throw new NeuralDiffError(
-      ErrorType.DAEMON_UNAVAILABLE,
-      'Could not connect to NeuralDiff daemon on any known port',
-      {
-        component: 'SDKClient',
-        operation: 'connectToDaemon',
-        timestamp: new Date().toISOString()
-      }
-    );
-  }
-
-  protected async retryNetworkOperation(): Promise<any> {
-    // This would integrate with actual network retry logic
-    return { networkRetry: true, success: true };
-  }
-
-  private mapHttpStatusToErrorType(statusCode: number): ErrorType {
-    const statusMap: Record<number, ErrorType> = {
-      400: ErrorType.INVALID_INPUT,
-      401: ErrorType.AUTH_FAILED,
-      403: ErrorType.PERMISSION_DENIED,
-      404: ErrorType.INVALID_URL,
-      408: ErrorType.PAGE_LOAD_TIMEOUT,
-      429: ErrorType.INSUFFICIENT_RESOURCES,
-      500: ErrorType.COMPARISON_FAILED,
-      502: ErrorType.NETWORK_ERROR,
-      503: ErrorType.DAEMON_UNAVAILABLE,
-      504: ErrorType.AI_ANALYSIS_TIMEOUT
-    };
-
-    return statusMap[statusCode] || ErrorType.NETWORK_ERROR;
+  // Look for a running daemon among the configured candidates
+  protected async attemptDaemonConnection(): Promise<{ daemonUrl: string; status: 'connected' }> {
+    const timeout = this.daemonOptions.daemon?.probeTimeout ?? 2000;
+    const info = await discoverDaemon(daemonCandidates(this.daemonOptions), async url => {
+      const response = await axios.get(`${url}/health`, { timeout });
+      return response.data;
+    });
+    return { daemonUrl: info.url, status: 'connected' };
   }
 }
 
 // Utility class for SDK consumers to handle errors gracefully
 export class SDKErrorReporter {
   private errorHandler: SDKErrorHandler;
-  private onError?: (error: NeuralDiffError) => void;
-  private onWarning?: (warning: string) => void;
+  private onError: ((error: NeuralDiffError) => void) | undefined;
+  private onWarning: ((warning: string) => void) | undefined;
 
   constructor(options: {
     onError?: (error: NeuralDiffError) => void;
@@ -169,16 +221,11 @@ export class SDKErrorReporter {
     this.onWarning = options.onWarning;
   }
 
-  async reportAndHandle(error: Error, context?: Partial<ErrorContext>): Promise<ErrorResponse> {
-    const response = await this.errorHandler.handleError(error, context);
+  async reportAndHandle(error: Error, context?: Partial<ErrorContext>, operation?: () => Promise<unknown>): Promise<ErrorResponse> {
+    const response = await this.errorHandler.handleError(error, context, operation);
 
     if (!response.success && response.error && this.onError) {
-      const neuralDiffError = new NeuralDiffError(
-        response.error.type,
-        response.error.message,
-        response.error.context
-      );
-      this.onError(neuralDiffError);
+      this.onError(response.error);
     }
 
     if (response.warning && this.onWarning) {
@@ -188,20 +235,17 @@ export class SDKErrorReporter {
     return response;
   }
 
-  // Helper method for React error boundaries
-  static createReactErrorBoundary(onError?: (error: NeuralDiffError) => void) {
+  // Helper for React error boundaries; React is passed in so the SDK doesn't require it
+  static createReactErrorBoundary(React: typeof import('react'), onError?: (error: NeuralDiffError) => void) {
     return class NeuralDiffErrorBoundary extends React.Component<
-      { children: React.ReactNode },
+      { children?: import('react').ReactNode },
       { hasError: boolean; error?: NeuralDiffError }
     > {
-      constructor(props: { children: React.ReactNode }) {
-        super(props);
-        this.state = { hasError: false };
-      }
+      state: { hasError: boolean; error?: NeuralDiffError } = { hasError: false };
 
       static getDerivedStateFromError(error: Error) {
-        const neuralDiffError = error instanceof NeuralDiffError 
-          ? error 
+        const neuralDiffError = error instanceof NeuralDiffError
+          ? error
           : new NeuralDiffError(
               ErrorType.COMPARISON_FAILED,
               error.message,
@@ -216,7 +260,7 @@ export class SDKErrorReporter {
         return { hasError: true, error: neuralDiffError };
       }
 
-      componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
+      componentDidCatch() {
         if (this.state.error && onError) {
           onError(this.state.error);
         }
@@ -224,19 +268,14 @@ export class SDKErrorReporter {
 
       render() {
         if (this.state.hasError && this.state.error) {
-          return (
-            <div style={{ padding: '20px', border: '1px solid #ff6b6b', borderRadius: '4px' }}>
-              <h3>Visual Analysis Error</h3>
-              <p>{this.state.error.userMessage}</p>
-              <details>
-                <summary>Recommendations</summary>
-                <ul>
-                  {this.state.error.recommendations.map((rec, index) => (
-                    <li key={index}>{rec}</li>
-                  ))}
-                </ul>
-              </details>
-            </div>
+          const h = React.createElement;
+          return h('div', { style: { padding: '20px', border: '1px solid #ff6b6b', borderRadius: '4px' } },
+            h('h3', null, 'Visual Analysis Error'),
+            h('p', null, this.state.error.userMessage),
+            h('details', null,
+              h('summary', null, 'Recommendations'),
+              h('ul', null, this.state.error.recommendations.map((rec, index) => h('li', { key: index }, rec)))
+            )
           );
         }
 
@@ -245,25 +284,3 @@ export class SDKErrorReporter {
     };
   }
 }
-
-// Export React component for convenience
-declare global {
-  namespace JSX {
-    interface IntrinsicElements {
-      // This would be properly typed in a real React environment
-    }
-  }
-}
-
-// Mock React for compilation
-const React = {
-  Component: class Component<P = {}, S = {}> {
-    props: P;
-    state: S;
-    constructor(props: P) {
-      this.props = props;
-      this.state = {} as S;
-    }
-    render(): any { return null; }
-  }
-};
\ No newline at end of file
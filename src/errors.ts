@@ -0,0 +1,248 @@
+/**
+ * NeuralDiff SDK - Errors
+ * Typed error model shared by every SDK call
+ */
+
+export enum ErrorType {
+    DAEMON_UNAVAILABLE = 'DAEMON_UNAVAILABLE',
+    DAEMON_INCOMPATIBLE = 'DAEMON_INCOMPATIBLE',
+    NETWORK_ERROR = 'NETWORK_ERROR',
+    INVALID_INPUT = 'INVALID_INPUT',
+    INVALID_CONFIG = 'INVALID_CONFIG',
+    UNSUPPORTED_OPTION = 'UNSUPPORTED_OPTION',
+    AUTH_FAILED = 'AUTH_FAILED',
+    PERMISSION_DENIED = 'PERMISSION_DENIED',
+    INVALID_URL = 'INVALID_URL',
+    PAGE_LOAD_TIMEOUT = 'PAGE_LOAD_TIMEOUT',
+    INSUFFICIENT_RESOURCES = 'INSUFFICIENT_RESOURCES',
+    CAPTURE_FAILED = 'CAPTURE_FAILED',
+    COMPARISON_FAILED = 'COMPARISON_FAILED',
+    AI_ANALYSIS_TIMEOUT = 'AI_ANALYSIS_TIMEOUT',
+    BASELINE_NOT_FOUND = 'BASELINE_NOT_FOUND',
+    BASELINE_STORE_ERROR = 'BASELINE_STORE_ERROR'
+}
+
+export interface ErrorContext {
+    component: string;
+    operation: string;
+    timestamp: string;
+    metadata?: Record<string, unknown>;
+}
+
+export interface ErrorResponse<T = unknown> {
+    success: boolean;
+    data?: T;
+    error?: NeuralDiffError;
+    warning?: string;
+}
+
+export interface NeuralDiffErrorOptions {
+    cause?: unknown;
+    statusCode?: number;
+    userMessage?: string;
+    recommendations?: string[];
+    retryable?: boolean;
+}
+
+interface ErrorDescription {
+    userMessage: string;
+    recommendations: string[];
+    retryable: boolean;
+}
+
+const DESCRIPTIONS: Record<ErrorType, ErrorDescription> = {
+    [ErrorType.DAEMON_UNAVAILABLE]: {
+        userMessage: 'The NeuralDiff daemon is not reachable.',
+        recommendations: ['Make sure the NeuralDiff daemon is running', 'Check that `apiUrl` points at the daemon (default http://localhost:7878)'],
+        retryable: true
+    },
+    [ErrorType.DAEMON_INCOMPATIBLE]: {
+        userMessage: 'The NeuralDiff daemon is not compatible with this version of the SDK.',
+        recommendations: ['Upgrade the daemon and the SDK to matching versions', "Set `daemon.onIncompatible` to 'warn' to connect anyway"],
+        retryable: false
+    },
+    [ErrorType.NETWORK_ERROR]: {
+        userMessage: 'The request to NeuralDiff failed because of a network problem.',
+        recommendations: ['Check your network connection', 'Retry the operation'],
+        retryable: true
+    },
+    [ErrorType.INVALID_INPUT]: {
+        userMessage: 'NeuralDiff rejected the request because its input is invalid.',
+        recommendations: ['Check the options passed to the call against the API reference'],
+        retryable: false
+    },
+    [ErrorType.INVALID_CONFIG]: {
+        userMessage: 'The NeuralDiff configuration is invalid.',
+        recommendations: ['Fix the listed problems in `.neuraldiff.json` or the NEURALDIFF_* environment variables'],
+        retryable: false
+    },
+    [ErrorType.UNSUPPORTED_OPTION]: {
+        userMessage: 'The NeuralDiff daemon does not support some of the requested options.',
+        recommendations: ['Upgrade the NeuralDiff daemon', 'Remove the unsupported options from the call'],
+        retryable: false
+    },
+    [ErrorType.AUTH_FAILED]: {
+        userMessage: 'NeuralDiff could not authenticate the request.',
+        recommendations: ['Check that NEURALDIFF_API_KEY is set and valid'],
+        retryable: false
+    },
+    [ErrorType.PERMISSION_DENIED]: {
+        userMessage: 'The API key is not allowed to perform this operation.',
+        recommendations: ['Check the permissions of the API key for this project'],
+        retryable: false
+    },
+    [ErrorType.INVALID_URL]: {
+        userMessage: 'The requested page or resource could not be found.',
+        recommendations: ['Check the URL and that the application under test is running', 'Check that a baseline exists for this name'],
+        retryable: false
+    },
+    [ErrorType.PAGE_LOAD_TIMEOUT]: {
+        userMessage: 'The page took too long to load.',
+        recommendations: ['Check that the application under test responds', 'Increase `timeout` or the capture `waitFor` timeout'],
+        retryable: true
+    },
+    [ErrorType.INSUFFICIENT_RESOURCES]: {
+        userMessage: 'NeuralDiff is busy or rate limited.',
+        recommendations: ['Lower `concurrency`', 'Retry after a short delay'],
+        retryable: true
+    },
+    [ErrorType.CAPTURE_FAILED]: {
+        userMessage: 'The screenshot could not be captured.',
+        recommendations: ['Check that the page loads in a browser', 'Retry the capture'],
+        retryable: true
+    },
+    [ErrorType.COMPARISON_FAILED]: {
+        userMessage: 'The visual comparison failed.',
+        recommendations: ['Retry the comparison', 'Check the daemon logs for details'],
+        retryable: true
+    },
+    [ErrorType.AI_ANALYSIS_TIMEOUT]: {
+        userMessage: 'The semantic analysis timed out.',
+        recommendations: ['Retry the comparison', "Use the 'fast' comparison algorithm for large pages"],
+        retryable: true
+    },
+    [ErrorType.BASELINE_NOT_FOUND]: {
+        userMessage: 'The requested baseline does not exist.',
+        recommendations: ['Capture a baseline first, or list the stored versions with the baseline store'],
+        retryable: false
+    },
+    [ErrorType.BASELINE_STORE_ERROR]: {
+        userMessage: 'The baseline could not be read or written.',
+        recommendations: ['Check that the baseline directory exists and is writable', 'Check that stored baseline images are valid PNGs'],
+        retryable: false
+    }
+};
+
+/**
+ * The error every `NeuroSpec` call rejects with.
+ *
+ * `message` keeps the technical detail (usually the daemon's own message) while `userMessage`
+ * and `recommendations` are written for the person running the tests. The original error, if
+ * any, is kept as `cause`.
+ */
+export class NeuralDiffError extends Error {
+    readonly type: ErrorType;
+    readonly context: ErrorContext;
+    readonly userMessage: string;
+    readonly recommendations: string[];
+    readonly retryable: boolean;
+    readonly statusCode: number | undefined;
+    readonly cause: unknown;
+
+    constructor(type: ErrorType, message: string, context: Partial<ErrorContext> = {}, options: NeuralDiffErrorOptions = {}) {
+        super(message);
+        const description = DESCRIPTIONS[type];
+
+        this.name = 'NeuralDiffError';
+        this.type = type;
+        this.context = {
+            component: context.component || 'NeuroSpec',
+            operation: context.operation || 'unknown',
+            timestamp: context.timestamp || new Date().toISOString(),
+            ...(context.metadata ? { metadata: context.metadata } : {})
+        };
+        this.userMessage = options.userMessage || description.userMessage;
+        this.recommendations = options.recommendations || description.recommendations;
+        this.retryable = options.retryable ?? description.retryable;
+        this.statusCode = options.statusCode;
+        this.cause = options.cause;
+    }
+
+    toJSON() {
+        return {
+            name: this.name,
+            type: this.type,
+            message: this.message,
+            userMessage: this.userMessage,
+            recommendations: this.recommendations,
+            retryable: this.retryable,
+            ...(this.statusCode !== undefined ? { statusCode: this.statusCode } : {}),
+            context: this.context
+        };
+    }
+}
+
+const STATUS_TYPES: Record<number, ErrorType> = {
+    400: ErrorType.INVALID_INPUT,
+    401: ErrorType.AUTH_FAILED,
+    403: ErrorType.PERMISSION_DENIED,
+    404: ErrorType.INVALID_URL,
+    408: ErrorType.PAGE_LOAD_TIMEOUT,
+    422: ErrorType.INVALID_INPUT,
+    429: ErrorType.INSUFFICIENT_RESOURCES,
+    500: ErrorType.COMPARISON_FAILED,
+    502: ErrorType.NETWORK_ERROR,
+    503: ErrorType.DAEMON_UNAVAILABLE,
+    504: ErrorType.AI_ANALYSIS_TIMEOUT
+};
+
+export function mapHttpStatusToErrorType(statusCode: number): ErrorType {
+    return STATUS_TYPES[statusCode] || ErrorType.NETWORK_ERROR;
+}
+
+/**
+ * Whether a failed comparison means there is no baseline yet. A bare 404 is not enough (a
+ * wrong route or a missing page answers the same); the daemon has to say `BASELINE_NOT_FOUND`.
+ */
+export function isMissingBaselineError(error: unknown): boolean {
+    return error instanceof NeuralDiffError && error.type === ErrorType.BASELINE_NOT_FOUND;
+}
+
+const ERROR_TYPES = new Set<string>(Object.values(ErrorType));
+
+// Node socket errors that mean nothing is listening at the daemon address
+const UNREACHABLE_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EHOSTUNREACH', 'EAI_AGAIN'];
+
+/**
+ * Turn anything thrown during an SDK call into a `NeuralDiffError`.
+ *
+ * HTTP responses take the error `code` of the daemon's response body when it names an
+ * `ErrorType`, and are otherwise classified with `mapHttpStatusToErrorType`. Connection failures
+ * become `DAEMON_UNAVAILABLE` or `NETWORK_ERROR`, and anything else gets `fallbackType`.
+ */
+export function toNeuralDiffError(error: unknown, context: Partial<ErrorContext> = {}, fallbackType: ErrorType = ErrorType.NETWORK_ERROR): NeuralDiffError {
+    if (error instanceof NeuralDiffError) return error;
+
+    const source = error as any;
+    const status: unknown = source?.response?.status;
+    const daemonMessage: unknown = source?.response?.data?.message || source?.response?.data?.error;
+    const message = typeof daemonMessage === 'string' && daemonMessage
+        ? daemonMessage
+        : source?.message || String(error);
+
+    if (typeof status === 'number') {
+        const daemonCode: unknown = source?.response?.data?.code;
+        const type = typeof daemonCode === 'string' && ERROR_TYPES.has(daemonCode) ? daemonCode as ErrorType : mapHttpStatusToErrorType(status);
+        return new NeuralDiffError(type, message, context, { cause: error, statusCode: status });
+    }
+
+    const code: unknown = source?.code;
+    if (typeof code === 'string' && UNREACHABLE_CODES.includes(code)) {
+        return new NeuralDiffError(ErrorType.DAEMON_UNAVAILABLE, message, context, { cause: error });
+    }
+    if (source?.isAxiosError || (typeof code === 'string' && /^E[A-Z]+$/.test(code))) {
+        return new NeuralDiffError(ErrorType.NETWORK_ERROR, message, context, { cause: error });
+    }
+
+    return new NeuralDiffError(fallbackType, message, context, { cause: error });
+}
@@ -0,0 +1,85 @@
+/**
+ * NeuralDiff SDK - Git Detection
+ * Reads the current and default branch straight from the working tree's `.git` directory
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Locate the git directory for `cwd`, following `.git` files used by worktrees and submodules
+ */
+export function findGitDir(cwd: string = process.cwd()): string | null {
+    let dir = path.resolve(cwd);
+
+    for (;;) {
+        const candidate = path.join(dir, '.git');
+        try {
+            const stat = fs.statSync(candidate);
+            if (stat.isDirectory()) return candidate;
+
+            const match = /^gitdir:\s*(.+)$/m.exec(fs.readFileSync(candidate, 'utf8'));
+            if (match) return path.resolve(dir, match[1]!.trim());
+        } catch {
+            // not here, keep walking up
+        }
+
+        const parent = path.dirname(dir);
+        if (parent === dir) return null;
+        dir = parent;
+    }
+}
+
+/**
+ * The checked-out branch, from `.git/HEAD`.
+ *
+ * CI systems usually check out a detached HEAD, so in that case the branch name is taken
+ * from the common CI environment variables instead. Returns null when neither is known.
+ */
+export function detectGitBranch(cwd?: string, env: Record<string, string | undefined> = process.env): string | null {
+    const gitDir = findGitDir(cwd);
+    if (gitDir) {
+        try {
+            const head = fs.readFileSync(path.join(gitDir, 'HEAD'), 'utf8').trim();
+            const match = /^ref:\s*refs\/heads\/(.+)$/.exec(head);
+            if (match) return match[1]!;
+        } catch {
+            // unreadable HEAD, fall through to CI variables
+        }
+    }
+
+    return env.GITHUB_HEAD_REF ||
+        env.GITHUB_REF_NAME ||
+        env.CI_COMMIT_REF_NAME ||
+        env.BITBUCKET_BRANCH ||
+        env.CIRCLE_BRANCH ||
+        env.BUILDKITE_BRANCH ||
+        null;
+}
+
+/**
+ * The remote's default branch from `refs/remotes/origin/HEAD`, falling back to `main`
+ */
+export function detectDefaultBranch(cwd?: string): string {
+    const gitDir = findGitDir(cwd);
+    if (gitDir) {
+        // Worktrees keep shared refs in the common directory
+        const commonDir = readCommonDir(gitDir);
+        try {
+            const ref = fs.readFileSync(path.join(commonDir, 'refs', 'remotes', 'origin', 'HEAD'), 'utf8').trim();
+            const match = /^ref:\s*refs\/remotes\/origin\/(.+)$/.exec(ref);
+            if (match) return match[1]!;
+        } catch {
+            // no remote HEAD recorded
+        }
+    }
+    return 'main';
+}
+
+function readCommonDir(gitDir: string): string {
+    try {
+        return path.resolve(gitDir, fs.readFileSync(path.join(gitDir, 'commondir'), 'utf8').trim());
+    } catch {
+        return gitDir;
+    }
+}
@@ -0,0 +1,171 @@
+/**
+ * NeuralDiff SDK - Perceptual Hashing
+ * Average, perceptual (DCT), difference and wavelet hashes for fast offline pre-checks
+ */
+
+import { loadImage, resampleGray, toGrayscale } from './image';
+import type { ImageSource, PerceptualHashOptions, RawImage } from './types';
+
+export const DEFAULT_HASH_OPTIONS: Required<PerceptualHashOptions> = {
+    algorithm: 'perceptual',
+    hashSize: 8,
+    highFrequencyFactor: 4
+};
+
+/**
+ * Hash an image, returning the bits as a hex string (`hashSize² / 4` characters)
+ */
+export function perceptualHash(source: ImageSource, options: PerceptualHashOptions = {}): string {
+    const { algorithm, hashSize, highFrequencyFactor } = { ...DEFAULT_HASH_OPTIONS, ...options };
+
+    if (!Number.isInteger(hashSize) || hashSize < 2) {
+        throw new Error(`hashSize must be an integer of at least 2, got ${hashSize}`);
+    }
+    if (!(highFrequencyFactor >= 1)) {
+        throw new Error(`highFrequencyFactor must be at least 1, got ${highFrequencyFactor}`);
+    }
+
+    const image = loadImage(source);
+
+    switch (algorithm) {
+        case 'average': return averageHash(image, hashSize);
+        case 'difference': return differenceHash(image, hashSize);
+        case 'wavelet': return waveletHash(image, hashSize, highFrequencyFactor);
+        case 'perceptual': return dctHash(image, hashSize, highFrequencyFactor);
+        default: throw new Error(`Unknown perceptual hash algorithm "${algorithm}"`);
+    }
+}
+
+/**
+ * Number of differing bits between two hashes of the same size
+ */
+export function hammingDistance(a: string, b: string): number {
+    if (a.length !== b.length) {
+        throw new Error(`Cannot compare hashes of different sizes (${a.length * 4} vs ${b.length * 4} bits)`);
+    }
+
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+        let bits = parseInt(a[i]!, 16) ^ parseInt(b[i]!, 16);
+        while (bits) {
+            distance += bits & 1;
+            bits >>= 1;
+        }
+    }
+    return distance;
+}
+
+/**
+ * Similarity between two hashes, from 0 (every bit differs) to 1 (identical)
+ */
+export function hashSimilarity(a: string, b: string): number {
+    return 1 - hammingDistance(a, b) / (a.length * 4);
+}
+
+function averageHash(image: RawImage, size: number): string {
+    const pixels = resampleGray(toGrayscale(image), image.width, image.height, size, size);
+    const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length;
+    return toHex(Array.from(pixels, value => value > mean));
+}
+
+function differenceHash(image: RawImage, size: number): string {
+    const pixels = resampleGray(toGrayscale(image), image.width, image.height, size + 1, size);
+    const bits: boolean[] = [];
+
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            bits.push(pixels[y * (size + 1) + x + 1]! > pixels[y * (size + 1) + x]!);
+        }
+    }
+    return toHex(bits);
+}
+
+function dctHash(image: RawImage, size: number, highFrequencyFactor: number): string {
+    const sampleSize = Math.round(size * highFrequencyFactor);
+    const pixels = resampleGray(toGrayscale(image), image.width, image.height, sampleSize, sampleSize);
+    const coefficients = dct2d(pixels, sampleSize);
+
+    const lowFrequencies: number[] = [];
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            lowFrequencies.push(coefficients[y * sampleSize + x]!);
+        }
+    }
+
+    const threshold = median(lowFrequencies);
+    return toHex(lowFrequencies.map(value => value > threshold));
+}
+
+function waveletHash(image: RawImage, size: number, highFrequencyFactor: number): string {
+    const levels = Math.max(0, Math.round(Math.log2(highFrequencyFactor)));
+    let current = size * 2 ** levels;
+    let pixels = resampleGray(toGrayscale(image), image.width, image.height, current, current);
+
+    // Remove the DC component so the hash reflects structure rather than overall brightness
+    const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length;
+    pixels = pixels.map(value => value - mean);
+
+    // Keep the Haar approximation (LL) band at each level until it is hashSize wide
+    while (current > size) {
+        const half = current / 2;
+        const next = new Float64Array(half * half);
+        for (let y = 0; y < half; y++) {
+            for (let x = 0; x < half; x++) {
+                const i = 2 * y * current + 2 * x;
+                next[y * half + x] = (pixels[i]! + pixels[i + 1]! + pixels[i + current]! + pixels[i + current + 1]!) / 2;
+            }
+        }
+        pixels = next;
+        current = half;
+    }
+
+    const values = Array.from(pixels);
+    const threshold = median(values);
+    return toHex(values.map(value => value > threshold));
+}
+
+function dct2d(values: Float64Array, n: number): Float64Array {
+    const cosines = new Float64Array(n * n);
+    for (let k = 0; k < n; k++) {
+        for (let i = 0; i < n; i++) {
+            cosines[k * n + i] = Math.cos((Math.PI * (2 * i + 1) * k) / (2 * n));
+        }
+    }
+
+    const rows = new Float64Array(n * n);
+    for (let y = 0; y < n; y++) {
+        for (let k = 0; k < n; k++) {
+            let sum = 0;
+            for (let i = 0; i < n; i++) sum += values[y * n + i]! * cosines[k * n + i]!;
+            rows[y * n + k] = sum;
+        }
+    }
+
+    const out = new Float64Array(n * n);
+    for (let x = 0; x < n; x++) {
+        for (let k = 0; k < n; k++) {
+            let sum = 0;
+            for (let i = 0; i < n; i++) sum += rows[i * n + x]! * cosines[k * n + i]!;
+            out[k * n + x] = sum;
+        }
+    }
+    return out;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = sorted.length >> 1;
+    return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+function toHex(bits: boolean[]): string {
+    let hex = '';
+    for (let i = 0; i < bits.length; i += 4) {
+        let nibble = 0;
+        for (let j = 0; j < 4; j++) {
+            nibble = (nibble << 1) | (bits[i + j] ? 1 : 0);
+        }
+        hex += nibble.toString(16);
+    }
+    return hex;
+}
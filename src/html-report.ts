@@ -0,0 +1,338 @@
+/**
+ * NeuralDiff SDK - HTML Review Report
+ * Renders results as a single static page with side-by-side, slider, overlay and diff views
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ErrorType, NeuralDiffError } from './errors';
+import { buildReportEntries, toJsonReport } from './reports';
+import type { ReportInput } from './reports';
+import type { HtmlReportOptions, JsonReport, ReportEntry, SemanticChange } from './types';
+
+type View = 'side' | 'swipe' | 'overlay' | 'diff';
+
+interface EntryImages {
+    baseline?: string;
+    current?: string;
+    diff?: string;
+}
+
+const VIEW_LABELS: Record<View, string> = {
+    side: 'Side by side',
+    swipe: 'Slider',
+    overlay: 'Overlay',
+    diff: 'Diff'
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+    '.gif': 'image/gif'
+};
+
+/**
+ * Render comparison/batch results, or a saved JSON report, as a self-contained HTML page
+ */
+export async function renderHtmlReport(input: ReportInput[] | JsonReport, options: HtmlReportOptions = {}): Promise<string> {
+    return render(input, options);
+}
+
+/**
+ * Write the HTML report; linked (non-inlined) images are made relative to the output file
+ */
+export async function writeHtmlReport(file: string, input: ReportInput[] | JsonReport, options: HtmlReportOptions = {}): Promise<void> {
+    const html = await render(input, options, path.dirname(path.resolve(file)));
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, html);
+}
+
+/**
+ * Read a report written with `writeReport(file, 'json', ...)`, e.g. to render it after the run
+ */
+export async function loadJsonReport(file: string): Promise<JsonReport> {
+    let report: any;
+    try {
+        report = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+        throw new NeuralDiffError(ErrorType.INVALID_INPUT, `Could not read report "${file}": ${(error as Error).message}`, {
+            component: 'HtmlReport',
+            operation: 'loadJsonReport'
+        }, { cause: error });
+    }
+
+    if (report?.schemaVersion !== 1 || !Array.isArray(report.results)) {
+        throw new NeuralDiffError(ErrorType.INVALID_INPUT, `"${file}" is not a NeuralDiff JSON report (schemaVersion 1)`, {
+            component: 'HtmlReport',
+            operation: 'loadJsonReport'
+        });
+    }
+    return normalizeReport(report);
+}
+
+/**
+ * Fill in the lists and totals a partial or hand-edited report leaves out; missing text
+ * fields render as empty strings
+ */
+function normalizeReport(report: JsonReport): JsonReport {
+    const summary: Partial<JsonReport['summary']> = report.summary ?? {};
+    return {
+        ...report,
+        tool: { name: 'neuraldiff', version: report.tool?.version ?? '' },
+        summary: {
+            total: finite(summary.total),
+            passed: finite(summary.passed),
+            failed: finite(summary.failed),
+            errors: finite(summary.errors),
+            skipped: finite(summary.skipped),
+            duration: finite(summary.duration)
+        },
+        results: report.results.filter(isObject).map(entry => ({
+            ...entry,
+            duration: finite(entry.duration),
+            changes: Array.isArray(entry.changes) ? entry.changes.filter(isObject) : [],
+            failures: Array.isArray(entry.failures) ? entry.failures.filter(isObject) : []
+        }))
+    };
+}
+
+async function render(input: ReportInput[] | JsonReport, options: HtmlReportOptions, outputDir?: string): Promise<string> {
+    // Fresh results keep their inline diffs, which the JSON report leaves out
+    const report = Array.isArray(input) ? { ...toJsonReport(input, options), results: buildReportEntries(input, options.policy) } : normalizeReport(input);
+    const title = options.title || 'NeuralDiff visual review';
+    const baseDir = options.baseDir || process.cwd();
+    const inline = options.inlineImages ?? true;
+
+    const sections: string[] = [];
+    for (const entry of report.results) {
+        const images: EntryImages = {};
+        for (const key of ['baseline', 'current', 'diff'] as const) {
+            const source = await resolveImage(entry[key], baseDir, inline, outputDir);
+            if (source) images[key] = source;
+        }
+        sections.push(renderEntry(entry, images));
+    }
+
+    const types = Array.from(new Set(report.results.flatMap(entry => entry.changes.map(change => change.type)))).sort();
+    const { summary } = report;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${escapeHtml(report.name)} &middot; ${escapeHtml(report.generatedAt)} &middot; NeuralDiff ${escapeHtml(report.tool.version)}</p>
+<p class="totals"><span class="status-failed">${finite(summary.failed)} failed</span> <span class="status-error">${finite(summary.errors)} errors</span> <span class="status-passed">${finite(summary.passed)} passed</span> <span class="status-skipped">${finite(summary.skipped)} skipped</span></p>
+<form class="filters">
+<fieldset><legend>Status</legend>${(['failed', 'error', 'passed', 'skipped'] as const).map(status => checkbox('status', status, status !== 'passed' || summary.failed + summary.errors === 0)).join('')}</fieldset>
+${types.length > 0 ? `<fieldset><legend>Change type</legend>${types.map(type => checkbox('type', type, true)).join('')}</fieldset>` : ''}
+</form>
+</header>
+<main>
+${sections.join('\n')}
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+function renderEntry(entry: ReportEntry, images: EntryImages): string {
+    const views: View[] = [];
+    if (images.baseline && images.current) views.push('side', 'swipe', 'overlay');
+    else if (images.baseline || images.current) views.push('side');
+    if (images.diff) views.push('diff');
+
+    const types = Array.from(new Set(entry.changes.map(change => change.type)));
+    const boxes = entry.changes.map((change, index) => changeBox(change, index)).join('');
+    const frame = (src: string | undefined, label: string, withBoxes: boolean) => src
+        ? `<figure class="frame"><img src="${escapeHtml(src)}" alt="${escapeHtml(`${entry.name} ${label}`)}">${withBoxes ? boxes : ''}<figcaption>${label}</figcaption></figure>`
+        : '';
+
+    const panels: Record<View, () => string> = {
+        side: () => `<div class="view view-side">${frame(images.baseline, 'Baseline', false)}${frame(images.current, 'Current', true)}</div>`,
+        swipe: () => `<div class="view view-swipe"><div class="stage"><img src="${escapeHtml(images.baseline!)}" alt="Baseline"><img class="top" src="${escapeHtml(images.current!)}" alt="Current"></div><input class="swipe" type="range" min="0" max="100" value="50" aria-label="Slider position"></div>`,
+        overlay: () => `<div class="view view-overlay"><div class="stage"><img src="${escapeHtml(images.baseline!)}" alt="Baseline"><img class="top" src="${escapeHtml(images.current!)}" alt="Current"></div><input class="opacity" type="range" min="0" max="100" value="50" aria-label="Current image opacity"></div>`,
+        diff: () => `<div class="view view-diff">${frame(images.diff, 'Diff', true)}</div>`
+    };
+
+    const changes = entry.changes.length > 0
+        ? `<ol class="changes">${entry.changes.map((change, index) => changeItem(change, index, entry.failures.includes(change))).join('')}</ol>`
+        : '';
+
+    // A loaded JSON report may have been edited, so even the enum values are escaped
+    const status = escapeHtml(entry.status);
+    return `<section class="result" data-status="${status}" data-types="${escapeHtml(types.join(' '))}" data-view="${views[0] || ''}">
+<h2><span class="badge status-${status}">${status}</span> ${escapeHtml(entry.name)}</h2>
+<p class="summary">${escapeHtml(entry.error || entry.summary)}</p>
+${views.length > 1 ? `<nav class="views">${views.map(view => `<button type="button" data-view="${view}">${VIEW_LABELS[view]}</button>`).join('')}</nav>` : ''}
+${views.map(view => panels[view]()).join('\n')}
+${changes}
+</section>`;
+}
+
+function changeBox(change: SemanticChange, index: number): string {
+    const region = change.coordinates;
+    if (!region) return '';
+    return `<span class="box severity-${escapeHtml(change.severity)}" data-change="${index}" data-type="${escapeHtml(change.type)}" ` +
+        `data-x="${finite(region.x)}" data-y="${finite(region.y)}" data-width="${finite(region.width)}" data-height="${finite(region.height)}"></span>`;
+}
+
+function changeItem(change: SemanticChange, index: number, failing: boolean): string {
+    const suggestion = change.suggestion ? `<div class="suggestion">${escapeHtml(change.suggestion)}</div>` : '';
+    const type = escapeHtml(change.type);
+    const severity = escapeHtml(change.severity);
+    return `<li data-change="${index}" data-type="${type}"${failing ? ' class="failing"' : ''}>` +
+        `<span class="badge severity-${severity}">${severity}</span> <span class="type">${type}</span> ` +
+        `<code>${escapeHtml(change.element)}</code> ${escapeHtml(change.change)} ` +
+        `<span class="confidence">${Math.round(finite(change.confidence) * 100)}%</span>${suggestion}</li>`;
+}
+
+function checkbox(filter: string, value: string, checked: boolean): string {
+    return `<label><input type="checkbox" data-filter="${filter}" value="${escapeHtml(value)}"${checked ? ' checked' : ''}> ${escapeHtml(value)}</label>`;
+}
+
+/**
+ * Data URIs and URLs are used as-is; local files are inlined, or linked relative to the output
+ */
+async function resolveImage(source: string | undefined, baseDir: string, inline: boolean, outputDir?: string): Promise<string | undefined> {
+    if (!source) return undefined;
+    if (/^(data:|https?:|file:)/i.test(source)) return source;
+
+    const file = path.resolve(baseDir, source);
+    if (inline) {
+        try {
+            const bytes = await fs.readFile(file);
+            return `data:${IMAGE_TYPES[path.extname(file).toLowerCase()] || 'image/png'};base64,${bytes.toString('base64')}`;
+        } catch {
+            // a missing screenshot shouldn't stop the report; link it instead
+        }
+    }
+
+    const link = outputDir ? path.relative(outputDir, file) : source;
+    return encodeURI(link.split(path.sep).join('/'));
+}
+
+// Numbers read from a report file, or 0 when they are not numbers
+function finite(value: unknown): number {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : 0;
+}
+
+function isObject(value: unknown): value is object {
+    return typeof value === 'object' && value !== null;
+}
+
+// Anything missing from a loaded report renders as an empty string
+function escapeHtml(value: unknown): string {
+    return (value === undefined || value === null ? '' : String(value))
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+const STYLES = `
+body { font: 14px/1.5 system-ui, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+header { background: #fff; border-bottom: 1px solid #d0d7de; padding: 16px 24px; position: sticky; top: 0; z-index: 2; }
+h1 { font-size: 20px; margin: 0; }
+.meta { color: #656d76; margin: 4px 0; }
+.totals span { margin-right: 12px; font-weight: 600; }
+.filters { display: flex; flex-wrap: wrap; gap: 16px; }
+fieldset { border: 1px solid #d0d7de; border-radius: 6px; padding: 4px 8px; }
+fieldset label { margin-right: 8px; white-space: nowrap; }
+main { padding: 16px 24px; }
+.result { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; margin-bottom: 16px; padding: 12px 16px; }
+.result h2 { font-size: 16px; margin: 0 0 4px; }
+.summary { margin: 0 0 8px; color: #656d76; }
+.badge { display: inline-block; border-radius: 10px; padding: 0 8px; font-size: 12px; font-weight: 600; color: #fff; background: #656d76; text-transform: uppercase; }
+.status-failed { color: #cf222e; } .badge.status-failed { background: #cf222e; color: #fff; }
+.status-error { color: #bc4c00; } .badge.status-error { background: #bc4c00; color: #fff; }
+.status-passed { color: #1a7f37; } .badge.status-passed { background: #1a7f37; color: #fff; }
+.status-skipped { color: #656d76; } .badge.status-skipped { background: #8c959f; color: #fff; }
+.severity-high { background: #cf222e; border-color: #cf222e; }
+.severity-medium { background: #bf8700; border-color: #bf8700; }
+.severity-low { background: #0969da; border-color: #0969da; }
+.views { margin-bottom: 8px; }
+.views button { border: 1px solid #d0d7de; background: #f6f8fa; padding: 4px 10px; cursor: pointer; }
+.view { display: none; }
+.result[data-view="side"] .view-side, .result[data-view="diff"] .view-diff { display: grid; grid-template-columns: repeat(auto-fit, minmax(280px, 1fr)); gap: 12px; }
+.result[data-view="swipe"] .view-swipe, .result[data-view="overlay"] .view-overlay { display: block; }
+.result[data-view="side"] button[data-view="side"], .result[data-view="swipe"] button[data-view="swipe"],
+.result[data-view="overlay"] button[data-view="overlay"], .result[data-view="diff"] button[data-view="diff"] { background: #0969da; color: #fff; }
+figure { margin: 0; }
+.frame { position: relative; display: inline-block; max-width: 100%; }
+.frame img, .stage img { display: block; max-width: 100%; }
+figcaption { color: #656d76; font-size: 12px; }
+.box { position: absolute; border: 2px solid; background: transparent !important; pointer-events: none; }
+.box.active, li.active { outline: 3px solid #fd8c73; }
+.stage { position: relative; display: inline-block; max-width: 100%; }
+.stage .top { position: absolute; top: 0; left: 0; }
+.view-swipe .top { clip-path: inset(0 0 0 var(--swipe, 50%)); }
+.view-overlay .top { opacity: var(--opacity, 0.5); }
+.stage + input { display: block; width: 100%; max-width: 600px; }
+.changes { padding-left: 20px; }
+.changes li { margin: 4px 0; }
+.changes li.failing { font-weight: 600; }
+.changes .badge { text-transform: none; }
+.type, .confidence { color: #656d76; }
+.suggestion { color: #656d76; font-style: italic; }
+[hidden] { display: none !important; }
+`;
+
+const SCRIPT = `
+function applyFilters() {
+  var checked = function (filter) {
+    return Array.prototype.map.call(document.querySelectorAll('[data-filter="' + filter + '"]:checked'), function (input) { return input.value; });
+  };
+  var statuses = checked('status');
+  var types = checked('type');
+  document.querySelectorAll('.result').forEach(function (section) {
+    var sectionTypes = section.dataset.types ? section.dataset.types.split(' ') : [];
+    var typeMatch = sectionTypes.length === 0 || sectionTypes.some(function (type) { return types.indexOf(type) !== -1; });
+    section.hidden = statuses.indexOf(section.dataset.status) === -1 || !typeMatch;
+    section.querySelectorAll('[data-type]').forEach(function (el) { el.hidden = types.indexOf(el.dataset.type) === -1; });
+  });
+}
+
+function placeBoxes(img) {
+  if (!img.naturalWidth || !img.naturalHeight) return;
+  img.parentElement.querySelectorAll('.box').forEach(function (box) {
+    box.style.left = (box.dataset.x / img.naturalWidth * 100) + '%';
+    box.style.top = (box.dataset.y / img.naturalHeight * 100) + '%';
+    box.style.width = (box.dataset.width / img.naturalWidth * 100) + '%';
+    box.style.height = (box.dataset.height / img.naturalHeight * 100) + '%';
+  });
+}
+
+document.querySelectorAll('[data-filter]').forEach(function (input) { input.addEventListener('change', applyFilters); });
+document.querySelectorAll('.views button').forEach(function (button) {
+  button.addEventListener('click', function () { button.closest('.result').dataset.view = button.dataset.view; });
+});
+document.querySelectorAll('input.swipe').forEach(function (input) {
+  input.addEventListener('input', function () { input.previousElementSibling.style.setProperty('--swipe', input.value + '%'); });
+});
+document.querySelectorAll('input.opacity').forEach(function (input) {
+  input.addEventListener('input', function () { input.previousElementSibling.style.setProperty('--opacity', input.value / 100); });
+});
+document.querySelectorAll('.frame img').forEach(function (img) {
+  if (img.complete) placeBoxes(img); else img.addEventListener('load', function () { placeBoxes(img); });
+});
+document.querySelectorAll('.result [data-change]').forEach(function (el) {
+  var toggle = function (on) {
+    el.closest('.result').querySelectorAll('[data-change="' + el.dataset.change + '"]').forEach(function (match) { match.classList.toggle('active', on); });
+  };
+  el.addEventListener('mouseenter', function () { toggle(true); });
+  el.addEventListener('mouseleave', function () { toggle(false); });
+});
+applyFilters();
+`;
@@ -0,0 +1,64 @@
+/**
+ * NeuralDiff SDK - Image Utilities
+ * Loading images and converting them to resampled grayscale for analysis
+ */
+
+import * as fs from 'fs';
+import { decodePNG } from './png';
+import type { ImageSource, RawImage } from './types';
+
+/**
+ * Resolve a PNG path, PNG buffer or already-decoded image into RGBA pixels
+ */
+export function loadImage(source: ImageSource): RawImage {
+    if (typeof source === 'string') {
+        return decodePNG(fs.readFileSync(source));
+    }
+    if (source instanceof Uint8Array) {
+        return decodePNG(source);
+    }
+    return source;
+}
+
+/**
+ * Rec. 601 luma of every pixel, with transparent pixels composited onto white
+ */
+export function toGrayscale(image: RawImage): Float64Array {
+    const { width, height, data } = image;
+    const gray = new Float64Array(width * height);
+
+    for (let i = 0; i < gray.length; i++) {
+        const alpha = data[i * 4 + 3]! / 255;
+        const luma = 0.299 * data[i * 4]! + 0.587 * data[i * 4 + 1]! + 0.114 * data[i * 4 + 2]!;
+        gray[i] = luma * alpha + 255 * (1 - alpha);
+    }
+
+    return gray;
+}
+
+/**
+ * Resample a single-channel image by averaging every source pixel that falls in each target pixel
+ */
+export function resampleGray(values: Float64Array, width: number, height: number, targetWidth: number, targetHeight: number): Float64Array {
+    const out = new Float64Array(targetWidth * targetHeight);
+
+    for (let ty = 0; ty < targetHeight; ty++) {
+        const y0 = Math.floor((ty * height) / targetHeight);
+        const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / targetHeight));
+
+        for (let tx = 0; tx < targetWidth; tx++) {
+            const x0 = Math.floor((tx * width) / targetWidth);
+            const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / targetWidth));
+
+            let sum = 0;
+            for (let y = y0; y < y1; y++) {
+                for (let x = x0; x < x1; x++) {
+                    sum += values[y * width + x]!;
+                }
+            }
+            out[ty * targetWidth + tx] = sum / ((y1 - y0) * (x1 - x0));
+        }
+    }
+
+    return out;
+}
@@ -4,16 +4,39 @@
  */
 
 import { EventEmitter } from 'events';
-import axios, { AxiosInstance } from 'axios';
-import WebSocket from 'ws';
+import * as fs from 'fs';
+import * as path from 'path';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import pLimit from 'p-limit';
-import { CaptureOptions, CompareOptions, ComparisonResult, NeuralDiffOptions, WatchOptions, Watcher, BatchOperation, BatchResult, SemanticChange, WatchResult, CaptureResult, ChangeType } from './types';
+import { CaptureOptions, CompareOptions, ComparisonResult, NeuralDiffOptions, WatchOptions, Watcher, BatchOperation, BatchOptions, BatchResult, SemanticChange, WatchResult, CaptureResult, ChangeType, ConfigResolutionOptions, CaptureMatrix, MatrixResult, RawImage, ImageSource, BaselinePutOptions, BaselineRecord, BaselineStore, PromoteBaselinesOptions, NeuroSpecEvents, NeuroSpecEventName, NeuroSpecListener, NeuroSpecErrorEvent, RetryPolicy, DaemonInfo } from './types';
+import { resolveConfig } from './config';
+import { expandMatrix } from './matrix';
+import { mergeCompareOptions, serializeCompareOptions, filterIgnoredChanges, pixelDiffChanges, DEFAULT_THRESHOLD } from './comparison';
+import { perceptualHash, hammingDistance, hashSimilarity, DEFAULT_HASH_OPTIONS } from './hash';
+import { pixelDiff } from './pixel-diff';
+import { preprocessPair } from './preprocess';
+import { loadImage } from './image';
+import { BranchAwareBaselineStore } from './branch-baselines';
+import { detectGitBranch, detectDefaultBranch } from './git';
+import { WatchManager } from './watch-manager';
+import { runBatch } from './batch';
+import { ErrorType, NeuralDiffError, toNeuralDiffError } from './errors';
+import { resolveRetryPolicy, withRetry } from './retry';
+import { daemonCandidates, describeDaemon, discoverDaemon, DEFAULT_DAEMON_URL, SUPPORTED_PROTOCOL_VERSIONS } from './daemon';
+import { SDK_VERSION } from './version';
+import { AsyncQueue, KeyedDebouncer } from './watch-stream';
+import { serializeCaptureOptions, unsupportedCaptureFields, UnsupportedCaptureOptionError } from './capture-options';
 
 export class NeuroSpec extends EventEmitter {
     private client: AxiosInstance;
-    private ws: WebSocket | null = null;
+    private watches: WatchManager | null = null;
     private config: NeuralDiffOptions;
     private limiter: any;
+    private retryPolicy: Required<RetryPolicy>;
+    private connection: Promise<DaemonInfo> | null = null;
+    private daemon: DaemonInfo | null = null;
+    private baselineStore: BaselineStore | null = null;
+    private branches: { branch: string; defaultBranch: string } | null = null;
 
     constructor(options: NeuralDiffOptions) {
         super();
@@ -26,19 +49,80 @@ export class NeuroSpec extends EventEmitter {
             throw new Error('API key is required for cloud API');
         }
 
-        // Initialize HTTP client for local daemon
-        this.client = axios.create({
-            baseURL: this.config.apiUrl || 'http://localhost:7878',
+        // Initialize HTTP client for local daemon; connect() may switch it to a discovered daemon
+        const defaults = {
+            baseURL: daemonCandidates(this.config)[0] || DEFAULT_DAEMON_URL,
             headers: {
                 'Content-Type': 'application/json',
-                'X-SDK-Version': '0.1.0',
-                'User-Agent': 'neuraldiff-sdk/0.1.0'
+                'X-SDK-Version': SDK_VERSION,
+                'X-Protocol-Version': String(SUPPORTED_PROTOCOL_VERSIONS.max),
+                'User-Agent': `neuraldiff-sdk/${SDK_VERSION}`
             },
             timeout: this.config.timeout || 30000
-        });
+        };
+        this.client = this.config.httpClient || axios.create(defaults);
+        if (this.config.httpClient) {
+            this.client.defaults.baseURL = defaults.baseURL;
+            if (this.config.timeout) this.client.defaults.timeout = this.config.timeout;
+            Object.assign(this.client.defaults.headers.common, defaults.headers);
+        }
+
+        // Classify every failed daemon response by its HTTP status
+        this.client.interceptors.response.use(undefined, error => Promise.reject(toNeuralDiffError(error, {
+            component: 'DaemonClient',
+            operation: `${String(error?.config?.method || 'request').toUpperCase()} ${error?.config?.url || ''}`.trim()
+        })));
 
         // Initialize concurrency limiter
         this.limiter = pLimit(this.config.concurrency || 5);
+        this.retryPolicy = resolveRetryPolicy(this.config.retry);
+
+        // Namespace baselines by git branch when enabled
+        this.baselineStore = this.config.baselineStore || null;
+        if (this.config.branchBaselines) {
+            const defaultBranch = this.config.defaultBranch || detectDefaultBranch();
+            const branch = this.config.branch || detectGitBranch() || defaultBranch;
+            this.branches = { branch, defaultBranch };
+
+            if (this.baselineStore && !(this.baselineStore instanceof BranchAwareBaselineStore)) {
+                this.baselineStore = new BranchAwareBaselineStore(this.baselineStore, this.branches);
+            }
+        }
+    }
+
+    /**
+     * Create an instance from `.neuraldiff.json`, `NEURALDIFF_*` environment variables and explicit options
+     */
+    static fromConfig(options?: Partial<NeuralDiffOptions>, resolution?: ConfigResolutionOptions): NeuroSpec {
+        return new NeuroSpec(resolveConfig(options, resolution));
+    }
+
+    /**
+     * Find a running daemon, check that it speaks a compatible protocol and send all further requests to it.
+     * Runs automatically before the first request unless `daemon.autoConnect` is false.
+     */
+    async connect(): Promise<DaemonInfo> {
+        if (!this.connection) {
+            this.connection = discoverDaemon(daemonCandidates(this.config), url => this.probeDaemon(url))
+                .then(info => this.useDaemon(info))
+                .catch(error => {
+                    this.connection = null;
+                    throw error;
+                });
+        }
+        return this.connection;
+    }
+
+    /**
+     * Ask the connected daemon (connecting first if needed) for its current health, version and capabilities
+     */
+    async health(): Promise<DaemonInfo> {
+        if (!this.daemon) return this.connect();
+
+        const startTime = Date.now();
+        const health = await this.probeDaemon(this.daemon.url);
+        this.daemon = describeDaemon(this.daemon.url, health, Date.now() - startTime);
+        return this.daemon;
     }
 
     /**
@@ -46,22 +130,25 @@ export class NeuroSpec extends EventEmitter {
      */
     async capture(name: string, options?: CaptureOptions): Promise<CaptureResult> {
         try {
-            const captureConfig = {
+            const startTime = Date.now();
+            const captureConfig: CaptureOptions = {
                 ...this.config.capture,
                 ...options,
-                name,
-                timestamp: Date.now()
+                url: this.resolveUrl(options?.url || this.config.capture?.url)
             };
+            this.emit('capture:start', { name, url: captureConfig.url });
 
-            const response = await this.client.post('/api/screenshots/capture', {
-                url: captureConfig.url || 'http://localhost:3000',
-                viewport: captureConfig.viewport || { width: 1280, height: 720 },
-                waitFor: captureConfig.waitFor || 'networkidle',
-                fullPage: captureConfig.fullPage || false,
+            const response = await this.post('capture', '/api/screenshots/capture', {
+                ...serializeCaptureOptions(captureConfig),
                 metadata: { name }
-            });
+            }, { retry: false });
+
+            const unsupported = unsupportedCaptureFields(response.data);
+            if (unsupported.length > 0) {
+                throw new UnsupportedCaptureOptionError(unsupported);
+            }
 
-            return {
+            const result: CaptureResult = {
                 id: response.data.id || `${name}-${Date.now()}`,
                 name,
                 status: response.data.success ? 'captured' : 'error',
@@ -69,9 +156,11 @@ export class NeuroSpec extends EventEmitter {
                 hash: response.data.hash || '',
                 metadata: response.data.metadata || {}
             };
-        } catch (error) {
-            this.emit('error', { operation: 'capture', name, error });
-            throw error;
+            this.emit('capture:done', { name, result, duration: Date.now() - startTime });
+            return result;
+        } catch (error: any) {
+            const unsupported = unsupportedCaptureFields(error?.response?.data ?? error?.cause?.response?.data);
+            throw this.fail('capture', name, unsupported.length > 0 ? new UnsupportedCaptureOptionError(unsupported) : error, ErrorType.CAPTURE_FAILED);
         }
     }
 
@@ -79,109 +168,491 @@ export class NeuroSpec extends EventEmitter {
      * Compare current state against baseline
      */
     async compare(name: string, options?: CompareOptions): Promise<ComparisonResult> {
+        return this.runCompare(name, options, true);
+    }
+
+    private async runCompare(name: string, options: CompareOptions | undefined, retry: boolean): Promise<ComparisonResult> {
         try {
             const startTime = Date.now();
+            this.emit('compare:start', { name });
+            const compareOptions = mergeCompareOptions(this.config.comparison, this.config.ignore, options);
+            const threshold = compareOptions.threshold ?? DEFAULT_THRESHOLD;
+
+            const images = await this.loadComparisonImages(name, compareOptions);
+            const fastPath = images && this.checkPerceptualHash(name, images, compareOptions, startTime);
+            if (fastPath) {
+                this.emit('compare:done', { name, result: fastPath });
+                return fastPath;
+            }
+
+            // With both images at hand the pixel diff is the verdict; the daemon never sees them
+            if (images) {
+                const local = this.comparePixels(name, images, compareOptions, startTime);
+                this.emit('compare:done', { name, result: local });
+                return local;
+            }
 
             // Use daemon's analysis endpoints
-            const analysisResult = await this.client.post('/api/analyze/working-directory', {
+            const analysisResult = await this.post('compare', '/api/analyze/working-directory', {
                 name,
-                algorithm: options?.algorithm || 'hybrid'
-            });
+                ...serializeCompareOptions(compareOptions),
+                ...this.branches
+            }, { retry });
 
             const result = analysisResult.data;
-            const hasChanges = result.phases?.static?.result?.probability > 0.1;
+            const probability: number = result.phases?.static?.result?.probability ?? 0;
+            const reported = this.convertToSemanticChanges(result);
+            const changes = filterIgnoredChanges(reported, compareOptions);
+
+            // Changes that were all inside ignored regions don't count, whatever the probability
+            const allIgnored = reported.length > 0 && changes.length === 0;
+            const hasChanges = probability > threshold && !allIgnored;
             
-            return {
+            const comparison: ComparisonResult = {
                 name,
                 hasChanges,
                 duration: Date.now() - startTime,
                 summary: hasChanges ? 
-                    `Visual changes detected (${(result.phases?.static?.result?.probability * 100).toFixed(1)}% probability)` :
+                    `Visual changes detected (${(probability * 100).toFixed(1)}% probability)` :
                     'No visual changes detected',
-                changes: this.convertToSemanticChanges(result),
+                changes,
                 confidence: result.phases?.static?.result?.confidence || 0.8
             };
+            this.emit('compare:done', { name, result: comparison });
+            return comparison;
         } catch (error) {
-            this.emit('error', { operation: 'compare', name, error });
-            throw error;
+            throw this.fail('compare', name, error, ErrorType.COMPARISON_FAILED);
         }
     }
 
     /**
-     * Start continuous monitoring for visual changes
+     * Capture every variant of a matrix (viewports × color schemes × locales × motion settings)
+     */
+    async captureMatrix(name: string, matrix: CaptureMatrix = {}): Promise<MatrixResult<CaptureResult>> {
+        const variants = expandMatrix(name, matrix, this.config.viewports);
+        const results = await Promise.all(
+            variants.map(variant =>
+                this.limiter(() => this.capture(variant.name, variant.options as CaptureOptions))
+            )
+        );
+
+        return {
+            name,
+            variants,
+            results: Object.fromEntries(variants.map((variant, i) => [variant.name, results[i]]))
+        };
+    }
+
+    /**
+     * Compare every variant of a matrix against its own baseline
+     */
+    async compareMatrix(name: string, matrix: CaptureMatrix = {}, options?: CompareOptions): Promise<MatrixResult<ComparisonResult>> {
+        const variants = expandMatrix(name, matrix, this.config.viewports);
+        const results = await Promise.all(
+            variants.map(variant =>
+                this.limiter(() => this.compare(variant.name, options))
+            )
+        );
+
+        return {
+            name,
+            variants,
+            results: Object.fromEntries(variants.map((variant, i) => [variant.name, results[i]]))
+        };
+    }
+
+    /**
+     * Start continuous monitoring for visual changes.
+     * All watchers share one daemon connection, which reconnects with backoff and re-subscribes them.
+     * The returned watcher is also an async iterable of results; stopping it or aborting `signal` ends the iteration.
      */
     watch(url: string, options?: WatchOptions): Watcher {
-        const watcherId = `watch-${Date.now()}`;
-
-        // Establish WebSocket connection for real-time updates
-        const wsUrl = this.config.apiUrl?.replace('http', 'ws') || 'ws://localhost:7878';
-        this.ws = new WebSocket(`${wsUrl}/ws`);
-
-        this.ws.on('open', () => {
-            this.ws?.send(JSON.stringify({
-                type: 'start-watch',
-                url,
-                options
-            }));
-        });
+        let stopped = false;
+        const close = (error?: NeuralDiffError) => {
+            if (stopped) return;
+            stopped = true;
+            options?.signal?.removeEventListener('abort', stop);
+            debouncer?.flush();
+            this.watches?.unsubscribe(id);
+            if (error) {
+                stream.fail(error);
+            } else {
+                stream.end();
+            }
+        };
+        const stop = () => close();
+
+        const stream = new AsyncQueue<WatchResult>({ bufferSize: options?.bufferSize, onReturn: stop });
+        const deliver = (result: WatchResult) => {
+            options?.onChange?.(result);
+            this.emit('change', result);
+            stream.push(result);
+        };
+        // Bursts of changes on the same path collapse into their latest result
+        const debouncer = options?.debounce ? new KeyedDebouncer(options.debounce, (result: WatchResult) => result.path, deliver) : null;
 
-        this.ws.on('message', (data) => {
-            const message = JSON.parse(data.toString());
+        const id = this.getWatchManager().subscribe({
+            url,
+            options,
+            onMessage: message => {
+                if (message.type !== 'change') return;
 
-            if (message.type === 'change') {
                 const result = this.processWatchChange(message);
-                options?.onChange?.(result);
-                this.emit('change', result);
-            }
+                if (options?.paths && !options.paths.includes(result.path)) return;
+
+                if (debouncer) {
+                    debouncer.push(result);
+                } else {
+                    deliver(result);
+                }
+            },
+            onError: error => {
+                const reported = toNeuralDiffError(error, { component: 'WatchManager', operation: 'watch', metadata: { url } });
+                options?.onError?.(reported);
+                this.reportError({ operation: 'watch', name: url, id, error: reported });
+            },
+            // The daemon is gone for good: `for await` loops throw instead of waiting forever
+            onClose: error => close(toNeuralDiffError(error, { component: 'WatchManager', operation: 'watch', metadata: { url } }))
         });
 
+        if (options?.signal?.aborted) {
+            stop();
+        } else {
+            options?.signal?.addEventListener('abort', stop, { once: true });
+        }
+
         return {
-            id: watcherId,
-            stop: () => {
-                this.ws?.send(JSON.stringify({ type: 'stop', id: watcherId }));
-                this.ws?.close();
-            }
+            id,
+            stop,
+            [Symbol.asyncIterator]: () => stream[Symbol.asyncIterator]()
         };
     }
 
     /**
-     * Execute multiple operations in parallel
+     * Stop all watchers and close the daemon connection
      */
-    async batch(operations: BatchOperation[]): Promise<BatchResult[]> {
-        const results = await Promise.all(
-            operations.map(op =>
-                this.limiter(() => this.executeBatchOperation(op))
-            )
-        );
+    dispose(): void {
+        this.watches?.dispose();
+        this.watches = null;
+    }
 
-        return results;
+    /**
+     * Execute multiple operations in parallel.
+     * Failed operations are retried up to `retries` times and reported with a structured `failure`; the batch itself never rejects.
+     */
+    async batch(operations: BatchOperation[], options: BatchOptions = {}): Promise<BatchResult[]> {
+        return runBatch(operations, options, {
+            schedule: task => this.limiter(task),
+            // The batch retries failed operations itself, so its comparisons skip the client retries
+            execute: (name, step) => step.type === 'capture'
+                ? this.capture(name, step.options as CaptureOptions)
+                : this.runCompare(name, step.options as CompareOptions | undefined, false),
+            progress: event => {
+                options.onProgress?.(event);
+                this.emit('batch:progress', event);
+            }
+        });
     }
 
     /**
-     * Update baseline for a captured element
+     * The configured local baseline store, if any (branch-aware with `branchBaselines`)
      */
-    async updateBaseline(name: string): Promise<void> {
-        await this.client.post(`/baseline/${name}/update`);
-        this.emit('baseline:updated', { name });
+    getBaselineStore(): BaselineStore | null {
+        return this.baselineStore;
+    }
+
+    /**
+     * Update baseline for a captured element.
+     * With a `baselineStore` configured and an image given, the baseline is stored locally as a new version.
+     */
+    async updateBaseline(name: string, image?: ImageSource, options?: BaselinePutOptions): Promise<BaselineRecord | undefined> {
+        try {
+            if (this.baselineStore && image) {
+                const record = await this.baselineStore.put(name, image, options);
+                this.emit('baseline:updated', { name, version: record.version });
+                return record;
+            }
+
+            await this.post('updateBaseline', `/baseline/${name}/update`, this.branches || undefined, { retry: false });
+            this.emit('baseline:updated', { name });
+            return undefined;
+        } catch (error) {
+            throw this.fail('updateBaseline', name, error, ErrorType.BASELINE_STORE_ERROR);
+        }
     }
 
     /**
      * Approve all pending changes
      */
     async approveAll(options?: { tag?: string }): Promise<void> {
-        await this.client.post('/approve-all', options);
-        this.emit('changes:approved', options);
+        try {
+            await this.post('approveAll', '/approve-all', options, { retry: false });
+            this.emit('changes:approved', { ...options });
+        } catch (error) {
+            throw this.fail('approveAll', options?.tag || '*', error, ErrorType.BASELINE_STORE_ERROR);
+        }
     }
 
     /**
-     * Rollback to previous baseline
+     * Rollback to previous baseline.
+     * With a `baselineStore` configured, `version` may name any stored version; omit it or pass 'previous' for the one before the current.
      */
     async rollback(name: string, options?: { version?: string }): Promise<void> {
-        await this.client.post(`/baseline/${name}/rollback`, options);
-        this.emit('baseline:rollback', { name, ...options });
+        try {
+            const store = this.baselineStore;
+            if (!store) {
+                // Not retried: repeating a rollback to 'previous' would step back twice
+                await this.post('rollback', `/baseline/${name}/rollback`, { ...options, ...this.branches }, { retry: false });
+                this.emit('baseline:rollback', { name, ...(options?.version ? { version: options.version } : {}) });
+                return;
+            }
+
+            const requested = options?.version;
+            const version = !requested || requested === 'previous'
+                ? await this.previousVersion(store, name)
+                : requested;
+            const target = version ? await store.get(name, version) : null;
+            if (!target) {
+                throw new NeuralDiffError(
+                    ErrorType.BASELINE_NOT_FOUND,
+                    `No baseline version ${requested && requested !== 'previous' ? `"${requested}" ` : 'before the current one '}exists for "${name}"`,
+                    { operation: 'rollback', metadata: { name } }
+                );
+            }
+
+            // Only the current pointer moves, so repeated rollbacks keep stepping back
+            const record = await store.setCurrent(name, target.record.version);
+            this.emit('baseline:rollback', { name, version: record.version });
+        } catch (error) {
+            throw this.fail('rollback', name, error, ErrorType.BASELINE_STORE_ERROR);
+        }
+    }
+
+    /**
+     * Copy a branch's approved baselines onto another branch (by default: the current branch onto the default branch)
+     */
+    async promoteBaselines(options: PromoteBaselinesOptions = {}): Promise<BaselineRecord[]> {
+        const from = options.from || this.branches?.branch || detectGitBranch();
+        const to = options.to || this.branches?.defaultBranch || detectDefaultBranch();
+        if (!from) {
+            throw new NeuralDiffError(ErrorType.INVALID_INPUT, 'Could not detect the current git branch; pass `from` explicitly', { operation: 'promoteBaselines' });
+        }
+
+        try {
+            let promoted: BaselineRecord[] = [];
+            if (this.baselineStore instanceof BranchAwareBaselineStore) {
+                promoted = await this.baselineStore.promote({ ...options, from, to });
+            } else {
+                await this.post('promoteBaselines', '/baseline/promote', { ...options, from, to }, { retry: false });
+            }
+
+            this.emit('baseline:promoted', { from, to, names: promoted.map(record => record.name) });
+            return promoted;
+        } catch (error) {
+            throw this.fail('promoteBaselines', `${from} -> ${to}`, error, ErrorType.BASELINE_STORE_ERROR);
+        }
+    }
+
+    // Typed event methods
+
+    on<E extends NeuroSpecEventName>(event: E, listener: NeuroSpecListener<E>): this {
+        return super.on(event, listener);
+    }
+
+    once<E extends NeuroSpecEventName>(event: E, listener: NeuroSpecListener<E>): this {
+        return super.once(event, listener);
+    }
+
+    off<E extends NeuroSpecEventName>(event: E, listener: NeuroSpecListener<E>): this {
+        return super.off(event, listener);
+    }
+
+    emit<E extends NeuroSpecEventName>(event: E, payload: NeuroSpecEvents[E]): boolean {
+        return super.emit(event, payload);
     }
 
     // Private helper methods
+
+    /**
+     * Emit 'error' only when someone listens: EventEmitter would otherwise throw
+     * ERR_UNHANDLED_ERROR in place of the original error
+     */
+    private reportError(event: NeuroSpecEvents['error']): void {
+        if (this.listenerCount('error') > 0) {
+            this.emit('error', event);
+        }
+    }
+
+    /**
+     * Lazily connect before the first request. A daemon that can't be found is left for the request
+     * itself to report (and retry); an incompatible one fails the request.
+     */
+    private async ensureConnected(): Promise<void> {
+        if (this.daemon || this.config.daemon?.autoConnect === false) return;
+
+        try {
+            await this.connect();
+        } catch (error) {
+            if (error instanceof NeuralDiffError && error.type === ErrorType.DAEMON_INCOMPATIBLE) throw error;
+        }
+    }
+
+    private async probeDaemon(url: string): Promise<unknown> {
+        const response = await this.client.get(`${url}/health`, { timeout: this.config.daemon?.probeTimeout ?? 2000 });
+        return response.data;
+    }
+
+    private useDaemon(info: DaemonInfo): DaemonInfo {
+        for (const message of info.warnings) {
+            this.emit('daemon:warning', { message, daemon: info });
+        }
+
+        if (!info.compatible && this.config.daemon?.onIncompatible !== 'warn') {
+            throw new NeuralDiffError(ErrorType.DAEMON_INCOMPATIBLE, info.warnings.join('; '), {
+                component: 'DaemonDiscovery',
+                operation: 'connect',
+                metadata: { url: info.url, version: info.version, protocolVersion: info.protocolVersion }
+            });
+        }
+
+        this.daemon = info;
+        this.client.defaults.baseURL = info.url;
+        this.emit('daemon:connected', info);
+        return info;
+    }
+
+    /**
+     * POST to the daemon, retrying transient failures according to the retry policy.
+     * Calls that change daemon state pass `retry: false`: a request that timed out may still
+     * have been applied, and sending it again would apply it twice.
+     */
+    private async post(operation: string, endpoint: string, body?: unknown, options: { retry?: boolean } = {}): Promise<AxiosResponse> {
+        await this.ensureConnected();
+        const policy = options.retry === false ? resolveRetryPolicy(false) : this.retryPolicy;
+        return withRetry(() => this.client.post(endpoint, body), policy, {
+            context: { operation, metadata: { endpoint } },
+            onRetry: attempt => this.emit('retry', { operation, endpoint, ...attempt })
+        });
+    }
+
+    /**
+     * Convert a failure into a `NeuralDiffError` and report it; the caller throws the result
+     */
+    private fail(operation: NeuroSpecErrorEvent['operation'], name: string, error: unknown, fallbackType: ErrorType): NeuralDiffError {
+        const reported = toNeuralDiffError(error, { operation, metadata: { name } }, fallbackType);
+        this.reportError({ operation, name, error: reported });
+        return reported;
+    }
+
+    private async loadComparisonImages(name: string, options: CompareOptions): Promise<[RawImage, RawImage] | null> {
+        if (!options.currentImage) return null;
+
+        let baselineImage = options.baselineImage;
+        if (!baselineImage && this.baselineStore) {
+            baselineImage = (await this.baselineStore.get(name))?.image;
+        }
+        if (!baselineImage) return null;
+
+        return preprocessPair(
+            loadImage(baselineImage),
+            loadImage(options.currentImage),
+            { ...this.config.imageProcessing, ...options.imageProcessing }
+        );
+    }
+
+    /**
+     * The version stored before the current one (history is newest first)
+     */
+    private async previousVersion(store: BaselineStore, name: string): Promise<string | undefined> {
+        const [current, history] = await Promise.all([store.get(name), store.history(name)]);
+        const position = current ? history.findIndex(record => record.version === current.record.version) : -1;
+        return position >= 0 ? history[position + 1]?.version : undefined;
+    }
+
+    private checkPerceptualHash(name: string, images: [RawImage, RawImage], options: CompareOptions, startTime: number): ComparisonResult | null {
+        // An 8x8 hash can't see a text edit or a 1px shift, so skipping the pixel diff is opt-in
+        if (!options.hash) return null;
+
+        const hashOptions = options.hash === true ? undefined : options.hash;
+        const baseline = perceptualHash(images[0], hashOptions);
+        const current = perceptualHash(images[1], hashOptions);
+        const distance = hammingDistance(baseline, current);
+        if (distance > (options.hashTolerance ?? 0)) return null;
+
+        return {
+            name,
+            hasChanges: false,
+            duration: Date.now() - startTime,
+            summary: 'No visual changes detected (perceptual hashes match)',
+            changes: [],
+            confidence: hashSimilarity(baseline, current),
+            metadata: {
+                perceptualHash: {
+                    algorithm: hashOptions?.algorithm || DEFAULT_HASH_OPTIONS.algorithm,
+                    baseline,
+                    current,
+                    distance
+                }
+            }
+        };
+    }
+
+    /**
+     * Judge a comparison by its pixel diff: it has changes when the share of changed pixels
+     * exceeds `threshold`, and each changed region becomes a change
+     */
+    private comparePixels(name: string, images: [RawImage, RawImage], options: CompareOptions, startTime: number): ComparisonResult {
+        const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+        const result = pixelDiff(images[0], images[1], options);
+        if (options.diffPath) {
+            fs.mkdirSync(path.dirname(options.diffPath), { recursive: true });
+            fs.writeFileSync(options.diffPath, result.diff);
+        }
+
+        const hasChanges = result.ratio > threshold;
+        return {
+            name,
+            hasChanges,
+            duration: Date.now() - startTime,
+            summary: hasChanges
+                ? `Visual changes detected (${(result.ratio * 100).toFixed(1)}% of pixels changed)`
+                : 'No visual changes detected',
+            changes: pixelDiffChanges(name, result),
+            confidence: 1,
+            diff: options.diffPath || `data:image/png;base64,${result.diff.toString('base64')}`,
+            ...(typeof options.baselineImage === 'string' ? { baseline: options.baselineImage } : {}),
+            ...(typeof options.currentImage === 'string' ? { current: options.currentImage } : {}),
+            metadata: {
+                pixelDiff: {
+                    changedPixels: result.changedPixels,
+                    antialiasedPixels: result.antialiasedPixels,
+                    ratio: result.ratio,
+                    regions: result.regions
+                }
+            }
+        };
+    }
+
+    private getWatchManager(): WatchManager {
+        if (!this.watches) {
+            const wsUrl = (this.daemon?.url || this.client.defaults.baseURL || DEFAULT_DAEMON_URL).replace('http', 'ws');
+            this.watches = new WatchManager(`${wsUrl}/ws`, {
+                ...(this.config.watchReconnect !== undefined ? { reconnect: this.config.watchReconnect } : {}),
+                ...(this.config.createWatchSocket ? { createSocket: this.config.createWatchSocket } : {})
+            });
+            const url = `${wsUrl}/ws`;
+            this.watches.on('connected', () => this.emit('watch:connected', { url }));
+            this.watches.on('disconnected', info => this.emit('watch:disconnected', { url, ...info }));
+        }
+        return this.watches;
+    }
+
+    private resolveUrl(url?: string): string {
+        const baseUrl = this.config.baseUrl || 'http://localhost:3000';
+        if (!url) return baseUrl;
+        return /^[a-z][a-z\d+.-]*:/i.test(url) ? url : new URL(url, baseUrl).toString();
+    }
+
     private processWatchChange(message: any): WatchResult {
         return {
             path: message.path,
@@ -199,14 +670,18 @@ export class NeuroSpec extends EventEmitter {
         const staticResult = result.phases.static.result;
         const changes: SemanticChange[] = [];
         
-        staticResult.reasons?.forEach((reason: string) => {
+        staticResult.reasons?.forEach((reason: string, index: number) => {
+            const coordinates = staticResult.regions?.[index];
+            const selector = staticResult.selectors?.[index];
             changes.push({
                 element: staticResult.affectedPages?.[0] || 'unknown',
                 change: reason,
                 severity: staticResult.severity === 'breaking' ? 'high' : 
                          staticResult.severity === 'major' ? 'medium' : 'low',
                 confidence: staticResult.confidence,
-                type: this.inferChangeType(reason)
+                type: this.inferChangeType(reason),
+                ...(selector ? { selector } : {}),
+                ...(coordinates ? { coordinates } : {})
             });
         });
         
@@ -223,39 +698,39 @@ export class NeuroSpec extends EventEmitter {
         if (lowerReason.includes('style') || lowerReason.includes('css')) return 'style';
         return 'content';
     }
-
-    private async executeBatchOperation(op: BatchOperation): Promise<BatchResult> {
-        try {
-            if (op.type === 'capture') {
-                const result = await this.capture(op.name, op.options as CaptureOptions);
-                return { 
-                    name: op.name,
-                    type: 'capture',
-                    status: 'success',
-                    result
-                };
-            } else {
-                const result = await this.compare(op.name, op.options as CompareOptions);
-                return { 
-                    name: op.name,
-                    type: 'compare',
-                    status: 'success',
-                    result
-                };
-            }
-        } catch (error: any) {
-            return {
-                name: op.name,
-                type: op.type,
-                status: 'error',
-                error: error?.message || 'Unknown error'
-            };
-        }
-    }
 }
 
 // Export types and utilities
 export * from './types';
+export { NeuralDiffError, ErrorType, mapHttpStatusToErrorType, toNeuralDiffError, isMissingBaselineError } from './errors';
+export type { ErrorContext, ErrorResponse, NeuralDiffErrorOptions } from './errors';
+export { ErrorHandler, SDKErrorHandler, SDKErrorReporter } from './error-handling';
+export type { ErrorHandlerOptions } from './error-handling';
+export { resolveConfig, findConfigFile, loadConfigFile, validateConfigFile, ConfigValidationError, CONFIG_FILE_NAME } from './config';
+export { expandMatrix } from './matrix';
+export { mergeCompareOptions, filterIgnoredChanges, regionContains } from './comparison';
+export { perceptualHash, hammingDistance, hashSimilarity } from './hash';
+export { pixelDiff, parseColor } from './pixel-diff';
+export { createPipeline, preprocessPair, composeProcessors, grayscale, normalize, brightness, contrast, blur, sharpen, resize } from './preprocess';
+export type { ImageProcessor } from './preprocess';
+export { FileSystemBaselineStore, DEFAULT_BASELINE_DIR } from './baseline-store';
+export { runBatch, toBatchFailure } from './batch';
+export { discoverDaemon, describeDaemon, daemonCandidates, compareVersions, DEFAULT_DAEMON_URL, DEFAULT_DAEMON_CANDIDATES, DAEMON_URL_ENV, SUPPORTED_PROTOCOL_VERSIONS } from './daemon';
+export { SDK_VERSION } from './version';
+export { toJUnitXml, toSarif, toJsonReport, formatReport, writeReport, buildReportEntries, policyFailures, reportInputs, DEFAULT_REPORT_POLICY } from './reports';
+export type { ReportInput } from './reports';
+export { renderHtmlReport, writeHtmlReport, loadJsonReport } from './html-report';
+export { createVisualMatchers, UPDATE_BASELINES_ENV } from './matchers';
+export type { MatcherContext, MatcherResult } from './matchers';
+export { withRetry, computeRetryDelay, parseRetryAfter, resolveRetryPolicy, DEFAULT_RETRY_POLICY } from './retry';
+export type { RetryAttempt } from './retry';
+export { WatchManager, DEFAULT_WATCH_RECONNECT } from './watch-manager';
+export type { WatchSocket } from './watch-manager';
+export { AsyncQueue, KeyedDebouncer } from './watch-stream';
+export { BranchAwareBaselineStore } from './branch-baselines';
+export { detectGitBranch, detectDefaultBranch, findGitDir } from './git';
+export { decodePNG, encodePNG, isPNG } from './png';
+export { validateCaptureOptions, serializeCaptureOptions, CaptureOptionsError, UnsupportedCaptureOptionError } from './capture-options';
 
 // Export default instance factory
 export default function createNeuroSpec(options: NeuralDiffOptions): NeuroSpec {
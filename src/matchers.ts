@@ -0,0 +1,121 @@
+/**
+ * NeuralDiff SDK - Test Matchers
+ * `toMatchVisualBaseline` for Vitest and Jest `expect.extend`
+ */
+
+import { ErrorType, NeuralDiffError, isMissingBaselineError } from './errors';
+import type { NeuroSpec } from './index';
+import type { ComparisonResult, SemanticChange, VisualBaselineOptions, VisualMatcherOptions } from './types';
+
+export const UPDATE_BASELINES_ENV = 'NEURALDIFF_UPDATE_BASELINES';
+
+/** The parts of Vitest's and Jest's matcher `this` the matcher reads */
+export interface MatcherContext {
+    isNot?: boolean;
+    snapshotState?: { _updateSnapshot?: 'all' | 'new' | 'none' };
+}
+
+export interface MatcherResult {
+    pass: boolean;
+    message: () => string;
+}
+
+/**
+ * Build matchers for `expect.extend`. The client (or a factory for it) is resolved on first use.
+ *
+ * The value under test is a URL or a page-like object with a `url()` method or `url` property.
+ */
+export function createVisualMatchers(client: NeuroSpec | (() => NeuroSpec), options: VisualMatcherOptions = {}) {
+    let instance: NeuroSpec | null = null;
+    const getClient = () => {
+        if (!instance) instance = typeof client === 'function' ? client() : client;
+        return instance;
+    };
+
+    return {
+        async toMatchVisualBaseline(
+            this: MatcherContext,
+            received: unknown,
+            name: string,
+            compareOptions: VisualBaselineOptions = {}
+        ): Promise<MatcherResult> {
+            const neuro = getClient();
+            const { capture, ...comparison } = compareOptions;
+            const url = resolveUrl(received);
+
+            await neuro.capture(name, { ...capture, url });
+
+            if (shouldUpdate(this, options)) {
+                await neuro.updateBaseline(name);
+                return { pass: !this.isNot, message: () => `Updated the visual baseline "${name}"` };
+            }
+
+            let result: ComparisonResult;
+            try {
+                result = await neuro.compare(name, comparison);
+            } catch (error) {
+                if (!isMissingBaselineError(error)) throw error;
+                if (!mayCreateMissing(this, options)) {
+                    return {
+                        pass: false,
+                        message: () => `No visual baseline "${name}" exists and new baselines aren't written in CI.\n` +
+                            `Run the tests locally (or with -u) to create it.`
+                    };
+                }
+
+                await neuro.updateBaseline(name);
+                return { pass: !this.isNot, message: () => `Created the visual baseline "${name}"` };
+            }
+
+            return {
+                pass: !result.hasChanges,
+                message: () => this.isNot
+                    ? `Expected "${name}" to differ from its visual baseline, but no changes were detected`
+                    : describeFailure(name, result)
+            };
+        }
+    };
+}
+
+function resolveUrl(received: unknown): string {
+    if (typeof received === 'string') return received;
+    if (received && typeof received === 'object') {
+        const url = (received as { url?: unknown }).url;
+        if (typeof url === 'function') return String(url.call(received));
+        if (typeof url === 'string') return url;
+    }
+    throw new NeuralDiffError(
+        ErrorType.INVALID_INPUT,
+        'toMatchVisualBaseline expects a URL or a page with a url() method',
+        { component: 'VisualMatcher', operation: 'toMatchVisualBaseline' }
+    );
+}
+
+function shouldUpdate(context: MatcherContext, options: VisualMatcherOptions): boolean {
+    if (options.update !== undefined) return options.update;
+
+    const env = process.env[UPDATE_BASELINES_ENV];
+    if (env) return env === '1' || env === 'true';
+
+    return context.snapshotState?._updateSnapshot === 'all';
+}
+
+function mayCreateMissing(context: MatcherContext, options: VisualMatcherOptions): boolean {
+    return options.createMissing ?? context.snapshotState?._updateSnapshot !== 'none';
+}
+
+function describeFailure(name: string, result: ComparisonResult): string {
+    const lines = [`Expected "${name}" to match its visual baseline`, result.summary];
+    for (const change of result.changes) {
+        lines.push(`  ${describeChange(change)}`);
+        if (change.suggestion) lines.push(`      ${change.suggestion}`);
+    }
+    if (result.diff && !result.diff.startsWith('data:')) lines.push(`Diff: ${result.diff}`);
+    lines.push(`Run with -u (or ${UPDATE_BASELINES_ENV}=1) to accept the new appearance.`);
+    return lines.join('\n');
+}
+
+function describeChange(change: SemanticChange): string {
+    const at = change.coordinates ? ` at ${change.coordinates.x},${change.coordinates.y} ${change.coordinates.width}x${change.coordinates.height}` : '';
+    return `[${change.severity}] ${change.type} ${change.element}: ${change.change}${at}`;
+}
@@ -0,0 +1,69 @@
+/**
+ * NeuralDiff SDK - Capture Matrix
+ * Expands viewports, color schemes, locales and motion settings into named capture variants
+ */
+
+import type { CaptureMatrix, CaptureOptions, MatrixVariant, Viewport } from './types';
+
+type Axis = Array<{ label: string; options: Partial<CaptureOptions> }>;
+
+/**
+ * Expand a matrix into the cartesian product of its axes.
+ *
+ * Axes are always combined in the same order (viewport, color scheme, locale, timezone,
+ * reduced motion, forced colors) so the same matrix yields the same variant names,
+ * e.g. `home@mobile.dark.de-DE`.
+ */
+export function expandMatrix(name: string, matrix: CaptureMatrix, defaultViewports?: Viewport[]): MatrixVariant[] {
+    const viewports = matrix.viewports || defaultViewports || [];
+
+    const axes: Axis[] = [
+        viewports.map(viewport => ({ label: viewportLabel(viewport), options: { viewport } })),
+        (matrix.colorSchemes || []).map(colorScheme => ({ label: colorScheme, options: { colorScheme } })),
+        (matrix.locales || []).map(locale => ({ label: locale, options: { locale } })),
+        (matrix.timezoneIds || []).map(timezoneId => ({ label: timezoneId.replace(/\//g, '-'), options: { timezoneId } })),
+        (matrix.reducedMotion || []).map(reducedMotion => ({
+            label: reducedMotion === 'reduce' ? 'reduced-motion' : 'motion',
+            options: { reducedMotion }
+        })),
+        (matrix.forcedColors || []).map(forcedColors => ({
+            label: forcedColors === 'active' ? 'forced-colors' : 'no-forced-colors',
+            options: { forcedColors }
+        }))
+    ].filter(axis => axis.length > 0);
+
+    let combinations: Array<{ labels: string[]; options: Partial<CaptureOptions> }> = [
+        { labels: [], options: { ...matrix.capture } }
+    ];
+
+    for (const axis of axes) {
+        combinations = combinations.flatMap(combination =>
+            axis.map(value => ({
+                labels: [...combination.labels, value.label],
+                options: { ...combination.options, ...value.options }
+            }))
+        );
+    }
+
+    const variants = combinations.map(({ labels, options }) => {
+        const key = labels.join('.');
+        return { name: key ? `${name}@${key}` : name, key, options };
+    });
+
+    const seen = new Set<string>();
+    for (const variant of variants) {
+        if (seen.has(variant.name)) {
+            throw new Error(`Capture matrix produces duplicate variant "${variant.name}"; give each viewport a unique name`);
+        }
+        seen.add(variant.name);
+    }
+
+    return variants;
+}
+
+/**
+ * Variant label for a viewport: its name, or `WIDTHxHEIGHT`
+ */
+export function viewportLabel(viewport: Viewport): string {
+    return viewport.name || `${viewport.width}x${viewport.height}`;
+}
@@ -0,0 +1,347 @@
+/**
+ * NeuralDiff SDK - Next.js Integration
+ * Discovers the routes of a Next.js project (`pages/` and `app/`) and captures them through `batch()`
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ErrorType, NeuralDiffError } from './errors';
+import { captureOperation, createMissingBaselines } from './batch';
+import type { NeuroSpec } from './index';
+import type { BatchOperation, BatchOptions, BatchResult, CaptureOptions, CompareOptions } from './types';
+
+/** Next.js's default `pageExtensions` */
+export const PAGE_EXTENSIONS = ['tsx', 'ts', 'jsx', 'js'] as const;
+
+/** Middleware files, relative to the project root (`proxy` is the Next.js 16 name) */
+export const MIDDLEWARE_FILES = ['middleware', 'src/middleware', 'proxy', 'src/proxy'].flatMap(file => PAGE_EXTENSIONS.map(ext => `${file}.${ext}`));
+
+/** Imports and calls that mark middleware or a page as requiring a signed-in user */
+const AUTH_PATTERN = /next-auth|@auth\/|@clerk\/nextjs|@auth0\/nextjs-auth0|@supabase\/(?:ssr|auth-helpers)|\bwithAuth\b|\bgetServerSession\b|\bwithPageAuthRequired\b|\bclerkMiddleware\b|\bauthMiddleware\b/;
+
+export type NextRouter = 'pages' | 'app';
+
+export interface NextRoute {
+  /** Route pattern, e.g. `/blog/[slug]` */
+  path: string;
+  /** Page file, relative to the project root */
+  file: string;
+  router: NextRouter;
+  /** Has `[param]` segments that need values before it can be captured */
+  dynamic: boolean;
+  authRequired: boolean;
+}
+
+export interface NextMiddleware {
+  file: string;
+  /** Uses an auth library (next-auth, Clerk, Auth0, Supabase) */
+  auth: boolean;
+  /** `config.matcher` entries; empty when the middleware runs on every route */
+  matcher: string[];
+}
+
+/** Values for a dynamic route's segments; catch-all segments take arrays */
+export type NextRouteParams = Record<string, string | string[]>;
+
+export interface NextRouteOptions {
+  /** Project root (default `process.cwd()`) */
+  projectDir?: string;
+  /** Only scan one router */
+  router?: NextRouter;
+  /**
+   * Segment values per dynamic route, keyed by pattern (`{ '/blog/[slug]': [{ slug: 'hello' }] }`).
+   * Routes not listed use the `generateStaticParams` / `getStaticPaths` paths recorded in
+   * `.next/prerender-manifest.json`, which only exists after `next build`.
+   */
+  params?: Record<string, NextRouteParams[]>;
+}
+
+export interface NextRoutePath {
+  route: NextRoute;
+  /** Concrete path to capture */
+  path: string;
+}
+
+export interface NextCaptureOptions extends NextRouteOptions, CompareOptions {
+  /** Cookies, storage or headers sent only with auth-protected routes; without them those routes are skipped */
+  auth?: Pick<CaptureOptions, 'cookies' | 'storageState' | 'headers' | 'httpCredentials'>;
+  /** Capture settings applied to every route */
+  capture?: Partial<Omit<CaptureOptions, 'url'>>;
+  filter?: (route: NextRoute) => boolean;
+  /** 'compare' (default) captures and compares each route; 'capture' only captures */
+  mode?: 'compare' | 'capture';
+  /** Store a route as its baseline when none exists yet (default true) */
+  createMissing?: boolean;
+  batch?: BatchOptions;
+}
+
+/**
+ * Every page route of the project, flagged as auth-protected by middleware or by the page itself
+ */
+export async function discoverRoutes(options: NextRouteOptions = {}): Promise<NextRoute[]> {
+  const projectDir = options.projectDir || process.cwd();
+  const routers: NextRouter[] = options.router ? [options.router] : ['pages', 'app'];
+
+  const [middleware, ...scanned] = await Promise.all([
+    extractMiddleware(projectDir),
+    ...routers.map(router => scanDirectoryForRoutes(projectDir, router))
+  ]);
+
+  return scanned
+    .flat()
+    .map(route => ({ ...route, authRequired: route.authRequired || detectAuthRequirement(route.path, middleware) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Page routes of one router. `pages/api`, `_app`-style files, private `_folders`, route groups,
+ * parallel `@slots` and intercepting routes follow Next.js's own rules.
+ */
+export async function scanDirectoryForRoutes(projectDir: string, router: NextRouter): Promise<NextRoute[]> {
+  const dir = await firstExisting([path.join(projectDir, router), path.join(projectDir, 'src', router)]);
+  if (!dir) return [];
+
+  const routes: NextRoute[] = [];
+  for (const file of await listFiles(dir)) {
+    const segments = path.relative(dir, file).split(path.sep);
+    const routePath = router === 'pages' ? pagesRoute(segments) : appRoute(segments);
+    if (routePath === null) continue;
+
+    routes.push({
+      path: routePath,
+      file: path.relative(projectDir, file).split(path.sep).join('/'),
+      router,
+      dynamic: routePath.includes('['),
+      authRequired: AUTH_PATTERN.test(await fs.readFile(file, 'utf8'))
+    });
+  }
+  return routes;
+}
+
+/**
+ * Whether middleware protects a route: it uses an auth library and its `matcher` covers the path
+ */
+export function detectAuthRequirement(routePath: string, middleware: NextMiddleware | null): boolean {
+  if (!middleware?.auth) return false;
+  return middleware.matcher.length === 0 || middleware.matcher.some(matcher => matchesMiddleware(routePath, matcher));
+}
+
+/**
+ * Read the project's middleware file, if any
+ */
+export async function extractMiddleware(projectDir: string): Promise<NextMiddleware | null> {
+  const file = await firstExisting(MIDDLEWARE_FILES.map(candidate => path.join(projectDir, candidate)));
+  if (!file) return null;
+
+  const source = await fs.readFile(file, 'utf8');
+  const matcher = /\bmatcher\s*:\s*(\[[\s\S]*?\]|'[^']*'|"[^"]*"|`[^`]*`)/.exec(source)?.[1] || '';
+  const sources = /source\s*:/.test(matcher)
+    ? Array.from(matcher.matchAll(/source\s*:\s*(['"`])(.*?)\1/g), match => match[2]!)
+    : Array.from(matcher.matchAll(/(['"`])(.*?)\1/g), match => match[2]!);
+
+  return {
+    file: path.relative(projectDir, file).split(path.sep).join('/'),
+    auth: AUTH_PATTERN.test(source),
+    matcher: sources
+  };
+}
+
+/**
+ * Concrete paths for every route. Dynamic routes take values from `params`, then from the paths
+ * `generateStaticParams` / `getStaticPaths` produced in `.next/prerender-manifest.json`; those with neither are `unresolved`.
+ */
+export async function expandRoutes(
+  routes: NextRoute[],
+  options: NextRouteOptions = {}
+): Promise<{ paths: NextRoutePath[]; unresolved: NextRoute[] }> {
+  const prerendered = await readPrerenderedPaths(options.projectDir || process.cwd());
+  const paths: NextRoutePath[] = [];
+  const unresolved: NextRoute[] = [];
+
+  for (const route of routes) {
+    if (!route.dynamic) {
+      paths.push({ route, path: route.path });
+      continue;
+    }
+
+    const params = options.params?.[route.path];
+    const concrete = params ? params.map(values => fillRoute(route.path, values)) : prerendered[route.path] || [];
+    if (concrete.length === 0) unresolved.push(route);
+    paths.push(...concrete.map(routePath => ({ route, path: routePath })));
+  }
+
+  return { paths, unresolved };
+}
+
+/**
+ * Capture (and by default compare) every route through `batch()`.
+ *
+ * Results follow route order. Protected routes without `auth`, and dynamic routes without params
+ * (none given and no `next build` output to read them from), come back as `skipped` results.
+ */
+export async function captureAllRoutes(neuro: NeuroSpec, baseUrl: string, options: NextCaptureOptions = {}): Promise<BatchResult[]> {
+  const { projectDir, router, params, auth, capture, filter, mode = 'compare', createMissing = true, batch, ...compare } = options;
+  const routeOptions: NextRouteOptions = { ...(projectDir ? { projectDir } : {}), ...(router ? { router } : {}), ...(params ? { params } : {}) };
+
+  const routes = (await discoverRoutes(routeOptions)).filter(route => !filter || filter(route));
+  const { paths, unresolved } = await expandRoutes(routes, routeOptions);
+  const type: BatchOperation['type'] = mode === 'capture' ? 'capture' : 'pipeline';
+
+  const operations: BatchOperation[] = [];
+  // Results in route order: skipped routes in place, numbers for the batch operation of a route
+  const slots: Array<BatchResult | number> = [];
+  const names = new Set<string>();
+
+  for (const route of routes) {
+    if (unresolved.includes(route)) {
+      slots.push(skippedRoute(routeName(route.path), type, `No params for dynamic route ${route.path}; pass \`params\` or run \`next build\` first`));
+      continue;
+    }
+
+    for (const { path: routePath } of paths.filter(candidate => candidate.route === route)) {
+      const name = routeName(routePath);
+      if (names.has(name)) {
+        throw new NeuralDiffError(ErrorType.INVALID_CONFIG, `Routes produce duplicate baseline name "${name}"`, {
+          component: 'NextJSIntegration',
+          operation: 'captureAllRoutes',
+          metadata: { path: routePath }
+        });
+      }
+      names.add(name);
+
+      if (route.authRequired && !auth) {
+        slots.push(skippedRoute(name, type, `Skipping protected route ${routePath}: pass \`auth\` to capture it`));
+        continue;
+      }
+
+      const captureOptions: CaptureOptions = {
+        ...capture,
+        ...(route.authRequired ? auth : {}),
+        url: new URL(routePath.slice(1), withSlash(baseUrl)).toString()
+      };
+      slots.push(operations.length);
+      operations.push(captureOperation(name, captureOptions, mode === 'capture' ? false : compare));
+    }
+  }
+
+  const results = await neuro.batch(operations, batch);
+  const settled = mode !== 'capture' && createMissing ? await createMissingBaselines(results, name => neuro.updateBaseline(name)) : results;
+  return slots.map(slot => (typeof slot === 'number' ? settled[slot]! : slot));
+}
+
+/**
+ * Baseline name for a route path: `/` is `index`, `/blog/hello` is `blog-hello`
+ */
+export function routeName(routePath: string): string {
+  return routePath.replace(/^\/+|\/+$/g, '').replace(/[^a-zA-Z0-9._[\]-]+/g, '-') || 'index';
+}
+
+/**
+ * Fill `[param]`, `[...catchAll]` and `[[...optional]]` segments of a route pattern
+ */
+export function fillRoute(pattern: string, params: NextRouteParams): string {
+  const segments = pattern.split('/').filter(Boolean).flatMap(segment => {
+    const match = /^\[(\[)?(\.\.\.)?([^\]]+)\]?\]$/.exec(segment);
+    if (!match) return [segment];
+
+    const [, optional, catchAll, key] = match;
+    const value = params[key!];
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+      if (optional) return [];
+      throw new NeuralDiffError(ErrorType.INVALID_CONFIG, `Params for ${pattern} are missing "${key}"`, {
+        component: 'NextJSIntegration',
+        operation: 'fillRoute',
+        metadata: { params }
+      });
+    }
+    const values = Array.isArray(value) ? value : [value];
+    return (catchAll ? values : values.slice(0, 1)).map(encodeURIComponent);
+  });
+
+  return `/${segments.join('/')}`;
+}
+
+function pagesRoute(segments: string[]): string | null {
+  const file = segments[segments.length - 1]!;
+  const ext = path.extname(file).slice(1);
+  if (!isPageExtension(ext) || segments[0] === 'api' || segments.some(segment => segment.startsWith('_'))) return null;
+
+  const name = file.slice(0, -(ext.length + 1));
+  const parts = [...segments.slice(0, -1), ...(name === 'index' ? [] : [name])];
+  return `/${parts.join('/')}`;
+}
+
+function appRoute(segments: string[]): string | null {
+  const file = segments[segments.length - 1]!;
+  const ext = path.extname(file).slice(1);
+  if (!isPageExtension(ext) || file.slice(0, -(ext.length + 1)) !== 'page') return null;
+
+  const dirs = segments.slice(0, -1);
+  if (dirs.some(dir => dir.startsWith('_') || dir.startsWith('@') || dir.startsWith('(.'))) return null;
+
+  return `/${dirs.filter(dir => !(dir.startsWith('(') && dir.endsWith(')'))).join('/')}`;
+}
+
+function isPageExtension(ext: string): boolean {
+  return (PAGE_EXTENSIONS as readonly string[]).includes(ext);
+}
+
+// Next.js matchers are path-to-regexp patterns: `/dashboard/:path*`, `/((?!api|_next).*)`
+function matchesMiddleware(routePath: string, matcher: string): boolean {
+  const source = matcher
+    .replace(/\/:\w+\*/g, '(?:/.*)?')
+    .replace(/\/:\w+\+/g, '(?:/.+)')
+    .replace(/\/:\w+\?/g, '(?:/[^/]+)?')
+    .replace(/:\w+/g, '[^/]+');
+  try {
+    return new RegExp(`^${source}$`).test(routePath);
+  } catch {
+    return false;
+  }
+}
+
+async function readPrerenderedPaths(projectDir: string): Promise<Record<string, string[]>> {
+  let manifest: any;
+  try {
+    manifest = JSON.parse(await fs.readFile(path.join(projectDir, '.next', 'prerender-manifest.json'), 'utf8'));
+  } catch {
+    return {};
+  }
+
+  const paths: Record<string, string[]> = {};
+  for (const [routePath, info] of Object.entries<any>(manifest?.routes || {})) {
+    if (!info?.srcRoute || info.srcRoute === routePath) continue;
+    paths[info.srcRoute] = [...(paths[info.srcRoute] || []), routePath];
+  }
+  return paths;
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(entries.map(entry => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return entry.name === 'node_modules' ? [] : listFiles(full);
+    return entry.isFile() ? [full] : [];
+  }));
+  return files.flat().sort();
+}
+
+async function firstExisting(candidates: string[]): Promise<string | null> {
+  for (const candidate of candidates) {
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // try the next one
+    }
+  }
+  return null;
+}
+
+function skippedRoute(name: string, type: BatchOperation['type'], reason: string): BatchResult {
+  return { name, type, status: 'skipped', error: reason, attempts: 0, duration: 0 };
+}
+
+function withSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
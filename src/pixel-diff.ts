@@ -0,0 +1,294 @@
+/**
+ * NeuralDiff SDK - Pixel Diff
+ * Pixel-level comparison with anti-aliasing detection and diff image rendering
+ */
+
+import { encodePNG } from './png';
+import { loadImage } from './image';
+import type { CompareOptions, ImageSource, PixelDiffResult, RawImage, Region } from './types';
+
+const DEFAULT_PIXEL_THRESHOLD = 0.1;
+const DEFAULT_ALPHA = 0.1;
+const DEFAULT_DIFF_COLOR: RGB = [255, 0, 0];
+const AA_COLOR: RGB = [255, 255, 0];
+const REGION_CELL = 8;
+
+// Largest possible YIQ delta between two colors
+const MAX_YIQ_DELTA = 35215;
+
+type RGB = [number, number, number];
+
+/**
+ * Compare two images pixel by pixel and render a diff PNG.
+ *
+ * Changed pixels are drawn in `diffColor` (or `diffColorAlt` where the current image is
+ * darker), anti-aliased pixels in yellow unless `includeAA` counts them as changes, and
+ * everything else as a faded grayscale copy of the baseline (`alpha`), or transparent when
+ * `diffMask` is set. Pixels inside `ignoredRegions` never count as changed.
+ */
+export function pixelDiff(baselineSource: ImageSource, currentSource: ImageSource, options: CompareOptions = {}): PixelDiffResult {
+    const baseline = loadImage(baselineSource);
+    const current = loadImage(currentSource);
+    const width = Math.max(baseline.width, current.width);
+    const height = Math.max(baseline.height, current.height);
+
+    const a = padImage(baseline, width, height);
+    const b = padImage(current, width, height);
+    const out = new Uint8Array(width * height * 4);
+    const changed = new Uint8Array(width * height);
+
+    const pixelThreshold = options.pixelThreshold ?? DEFAULT_PIXEL_THRESHOLD;
+    const maxDelta = MAX_YIQ_DELTA * pixelThreshold * pixelThreshold;
+    const includeAA = options.includeAA ?? options.includeAntialiasing ?? false;
+    const alpha = options.alpha ?? DEFAULT_ALPHA;
+    const diffColor = options.diffColor ? parseColor(options.diffColor) : DEFAULT_DIFF_COLOR;
+    const diffColorAlt = options.diffColorAlt ? parseColor(options.diffColorAlt) : diffColor;
+    const ignored = options.ignoredRegions || [];
+
+    let changedPixels = 0;
+    let antialiasedPixels = 0;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const pos = (y * width + x) * 4;
+            const outside = x >= baseline.width || y >= baseline.height || x >= current.width || y >= current.height;
+            const isIgnored = ignored.some(region => x >= region.x && x < region.x + region.width && y >= region.y && y < region.y + region.height);
+            const delta = outside ? MAX_YIQ_DELTA : colorDelta(a, b, pos, pos, false);
+
+            if (!isIgnored && Math.abs(delta) > maxDelta) {
+                if (!outside && !includeAA && (isAntialiased(a, x, y, width, height, b) || isAntialiased(b, x, y, width, height, a))) {
+                    antialiasedPixels++;
+                    if (!options.diffMask) drawPixel(out, pos, AA_COLOR);
+                } else {
+                    changedPixels++;
+                    changed[y * width + x] = 1;
+                    drawPixel(out, pos, delta < 0 ? diffColorAlt : diffColor);
+                }
+            } else if (!options.diffMask) {
+                drawGray(a, pos, alpha, out);
+            }
+        }
+    }
+
+    const totalPixels = width * height;
+    return {
+        width,
+        height,
+        totalPixels,
+        changedPixels,
+        antialiasedPixels,
+        ratio: totalPixels > 0 ? changedPixels / totalPixels : 0,
+        regions: findRegions(changed, width, height),
+        diff: encodePNG({ width, height, data: out })
+    };
+}
+
+/**
+ * Parse `#rgb`, `#rrggbb` or `rgb(r, g, b)` colors
+ */
+export function parseColor(color: string): RGB {
+    const value = color.trim();
+    const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(value);
+    if (short) return [parseInt(short[1]! + short[1], 16), parseInt(short[2]! + short[2], 16), parseInt(short[3]! + short[3], 16)];
+
+    const long = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(value);
+    if (long) return [parseInt(long[1]!, 16), parseInt(long[2]!, 16), parseInt(long[3]!, 16)];
+
+    const rgb = /^rgb\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*\)$/i.exec(value);
+    if (rgb) return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])].map(c => Math.min(255, c)) as RGB;
+
+    throw new Error(`Unsupported diff color "${color}" (use #rgb, #rrggbb or rgb(r, g, b))`);
+}
+
+function padImage(image: RawImage, width: number, height: number): Uint8Array {
+    if (image.width === width && image.height === height) return image.data;
+
+    const padded = new Uint8Array(width * height * 4);
+    for (let y = 0; y < image.height; y++) {
+        padded.set(image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4), y * width * 4);
+    }
+    return padded;
+}
+
+/**
+ * Perceptual color difference in YIQ space, with alpha composited onto white.
+ * The sign tells whether the second pixel is lighter (positive) or darker (negative).
+ */
+function colorDelta(a: Uint8Array, b: Uint8Array, i: number, j: number, brightnessOnly: boolean): number {
+    let r1 = a[i]!, g1 = a[i + 1]!, b1 = a[i + 2]!;
+    let r2 = b[j]!, g2 = b[j + 1]!, b2 = b[j + 2]!;
+    const a1 = a[i + 3]!, a2 = b[j + 3]!;
+
+    if (a1 === a2 && r1 === r2 && g1 === g2 && b1 === b2) return 0;
+
+    if (a1 < 255) {
+        r1 = blend(r1, a1 / 255); g1 = blend(g1, a1 / 255); b1 = blend(b1, a1 / 255);
+    }
+    if (a2 < 255) {
+        r2 = blend(r2, a2 / 255); g2 = blend(g2, a2 / 255); b2 = blend(b2, a2 / 255);
+    }
+
+    const y1 = rgb2y(r1, g1, b1);
+    const y2 = rgb2y(r2, g2, b2);
+    const y = y1 - y2;
+    if (brightnessOnly) return y;
+
+    const iDelta = rgb2i(r1, g1, b1) - rgb2i(r2, g2, b2);
+    const qDelta = rgb2q(r1, g1, b1) - rgb2q(r2, g2, b2);
+    const delta = 0.5053 * y * y + 0.299 * iDelta * iDelta + 0.1957 * qDelta * qDelta;
+
+    return y1 > y2 ? -delta : delta;
+}
+
+/**
+ * Anti-aliasing check after V. Vysniauskas (2009): a pixel is anti-aliased when it sits on a
+ * brightness gradient between its darkest and brightest neighbours and one of those
+ * neighbours belongs to a flat area in both images.
+ */
+function isAntialiased(img: Uint8Array, x1: number, y1: number, width: number, height: number, other: Uint8Array): boolean {
+    const x0 = Math.max(x1 - 1, 0);
+    const y0 = Math.max(y1 - 1, 0);
+    const x2 = Math.min(x1 + 1, width - 1);
+    const y2 = Math.min(y1 + 1, height - 1);
+    const pos = (y1 * width + x1) * 4;
+
+    let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+    let min = 0;
+    let max = 0;
+    let minX = 0, minY = 0, maxX = 0, maxY = 0;
+
+    for (let x = x0; x <= x2; x++) {
+        for (let y = y0; y <= y2; y++) {
+            if (x === x1 && y === y1) continue;
+
+            const delta = colorDelta(img, img, pos, (y * width + x) * 4, true);
+            if (delta === 0) {
+                zeroes++;
+                if (zeroes > 2) return false;
+            } else if (delta < min) {
+                min = delta; minX = x; minY = y;
+            } else if (delta > max) {
+                max = delta; maxX = x; maxY = y;
+            }
+        }
+    }
+
+    if (min === 0 || max === 0) return false;
+
+    return (hasManySiblings(img, minX, minY, width, height) && hasManySiblings(other, minX, minY, width, height)) ||
+        (hasManySiblings(img, maxX, maxY, width, height) && hasManySiblings(other, maxX, maxY, width, height));
+}
+
+function hasManySiblings(img: Uint8Array, x1: number, y1: number, width: number, height: number): boolean {
+    const x0 = Math.max(x1 - 1, 0);
+    const y0 = Math.max(y1 - 1, 0);
+    const x2 = Math.min(x1 + 1, width - 1);
+    const y2 = Math.min(y1 + 1, height - 1);
+    const pos = (y1 * width + x1) * 4;
+    let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+
+    for (let x = x0; x <= x2; x++) {
+        for (let y = y0; y <= y2; y++) {
+            if (x === x1 && y === y1) continue;
+            const other = (y * width + x) * 4;
+            if (img[pos] === img[other] && img[pos + 1] === img[other + 1] &&
+                img[pos + 2] === img[other + 2] && img[pos + 3] === img[other + 3]) zeroes++;
+            if (zeroes > 2) return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Group changed pixels into bounding boxes by connecting changed 8×8 cells
+ */
+function findRegions(changed: Uint8Array, width: number, height: number): Region[] {
+    const cols = Math.ceil(width / REGION_CELL);
+    const rows = Math.ceil(height / REGION_CELL);
+    const cells: Array<Region | null> = new Array(cols * rows).fill(null);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!changed[y * width + x]) continue;
+            const index = Math.floor(y / REGION_CELL) * cols + Math.floor(x / REGION_CELL);
+            const cell = cells[index];
+            if (!cell) {
+                cells[index] = { x, y, width: 1, height: 1 };
+            } else {
+                extend(cell, { x, y, width: 1, height: 1 });
+            }
+        }
+    }
+
+    const regions: Region[] = [];
+    const visited = new Uint8Array(cells.length);
+
+    for (let start = 0; start < cells.length; start++) {
+        if (!cells[start] || visited[start]) continue;
+
+        const region = { ...cells[start]! };
+        const queue = [start];
+        visited[start] = 1;
+
+        while (queue.length > 0) {
+            const index = queue.pop()!;
+            extend(region, cells[index]!);
+            const cx = index % cols;
+            const cy = Math.floor(index / cols);
+
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const nx = cx + dx;
+                    const ny = cy + dy;
+                    if (nx < 0 || ny < 0 || nx >= cols || ny >= rows) continue;
+                    const neighbour = ny * cols + nx;
+                    if (cells[neighbour] && !visited[neighbour]) {
+                        visited[neighbour] = 1;
+                        queue.push(neighbour);
+                    }
+                }
+            }
+        }
+
+        regions.push(region);
+    }
+
+    return regions;
+}
+
+function extend(region: Region, other: Region): void {
+    const right = Math.max(region.x + region.width, other.x + other.width);
+    const bottom = Math.max(region.y + region.height, other.y + other.height);
+    region.x = Math.min(region.x, other.x);
+    region.y = Math.min(region.y, other.y);
+    region.width = right - region.x;
+    region.height = bottom - region.y;
+}
+
+function drawPixel(out: Uint8Array, pos: number, [r, g, b]: RGB): void {
+    out[pos] = r;
+    out[pos + 1] = g;
+    out[pos + 2] = b;
+    out[pos + 3] = 255;
+}
+
+function drawGray(img: Uint8Array, pos: number, alpha: number, out: Uint8Array): void {
+    const gray = blend(rgb2y(img[pos]!, img[pos + 1]!, img[pos + 2]!), (alpha * img[pos + 3]!) / 255);
+    drawPixel(out, pos, [gray, gray, gray]);
+}
+
+function blend(c: number, a: number): number {
+    return 255 + (c - 255) * a;
+}
+
+function rgb2y(r: number, g: number, b: number): number {
+    return r * 0.29889531 + g * 0.58662247 + b * 0.11448223;
+}
+
+function rgb2i(r: number, g: number, b: number): number {
+    return r * 0.59597799 - g * 0.2741761 - b * 0.32180189;
+}
+
+function rgb2q(r: number, g: number, b: number): number {
+    return r * 0.21147017 - g * 0.52261711 + b * 0.31114694;
+}
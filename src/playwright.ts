@@ -0,0 +1,225 @@
+/**
+ * NeuralDiff SDK - Playwright Integration
+ * A `neuralDiff` test fixture and captures that keep the state a test built up in its page
+ */
+
+import { NeuroSpec } from './index';
+import { ErrorType, NeuralDiffError, isMissingBaselineError } from './errors';
+import type { CaptureOptions, CompareOptions, ComparisonResult, Cookie, StorageState } from './types';
+
+// Structural subsets of Playwright's Page and TestInfo, so the SDK doesn't depend on @playwright/test
+
+export interface PlaywrightCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: 'Strict' | 'Lax' | 'None';
+}
+
+export interface PlaywrightPage {
+  url(): string;
+  viewportSize(): { width: number; height: number } | null;
+  context(): {
+    cookies(urls?: string | string[]): Promise<PlaywrightCookie[]>;
+    storageState(): Promise<{ cookies: PlaywrightCookie[]; origins: StorageState['origins'] }>;
+  };
+  evaluate<R>(pageFunction: () => R | Promise<R>): Promise<R>;
+  screenshot(options?: { fullPage?: boolean; animations?: 'disabled' | 'allow'; caret?: 'hide' | 'initial' }): Promise<Buffer>;
+}
+
+export interface PlaywrightTestInfo {
+  title: string;
+  titlePath: string[];
+  project: { name: string };
+  attach(name: string, options: { body: string | Buffer; contentType: string }): Promise<void>;
+}
+
+export interface PageCaptureOptions extends CompareOptions {
+  /**
+   * 'state' (default) sends the page's URL, cookies, storage, viewport and color scheme to the daemon to re-capture;
+   * 'screenshot' compares a screenshot of the live page against the local `baselineStore`, judged by the pixel diff alone
+   */
+  mode?: 'state' | 'screenshot';
+  fullPage?: boolean;
+  /** Extra capture options for 'state' mode, applied over what was read from the page */
+  capture?: Partial<Omit<CaptureOptions, 'url'>>;
+  /** Store the page as the baseline when none exists yet (default true) */
+  createMissing?: boolean;
+}
+
+export interface NeuralDiffFixture {
+  client: NeuroSpec;
+  /** Baseline name derived from the test title and project */
+  name: string;
+  /** Capture the page and compare it; repeated calls without a name get `-2`, `-3`, ... suffixes */
+  captureFromPage(name?: string, options?: PageCaptureOptions): Promise<ComparisonResult>;
+}
+
+export interface NeuralDiffFixtures {
+  neuralDiff: NeuralDiffFixture;
+}
+
+export interface NeuralDiffFixtureOptions extends PageCaptureOptions {
+  /** Client to use, or a factory called per test (default `NeuroSpec.fromConfig()`) */
+  client?: NeuroSpec | (() => NeuroSpec);
+}
+
+/**
+ * Read everything the daemon needs to reproduce the live page into `CaptureOptions`
+ */
+export async function serializePageState(page: PlaywrightPage): Promise<CaptureOptions> {
+  const url = page.url();
+  const context = page.context();
+  const [cookies, storage, environment] = await Promise.all([
+    context.cookies(url),
+    context.storageState(),
+    page.evaluate(() => ({
+      colorScheme: (matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light') as 'dark' | 'light',
+      reducedMotion: (matchMedia('(prefers-reduced-motion: reduce)').matches ? 'reduce' : 'no-preference') as 'reduce' | 'no-preference',
+      userAgent: navigator.userAgent,
+      locale: navigator.language,
+      timezoneId: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      deviceScaleFactor: devicePixelRatio
+    }))
+  ]);
+  const viewport = page.viewportSize();
+  const origins = storage.origins.filter(origin => origin.localStorage.length > 0);
+
+  return {
+    url,
+    ...(viewport ? { viewport } : {}),
+    ...(cookies.length > 0 ? { cookies: cookies.map(toCookie) } : {}),
+    ...(origins.length > 0 ? { storageState: { origins } } : {}),
+    ...environment
+  };
+}
+
+/**
+ * Capture a live Playwright page and compare it against the baseline `name`
+ */
+export async function captureFromPage(
+  neuro: NeuroSpec,
+  page: PlaywrightPage,
+  name: string,
+  options: PageCaptureOptions = {}
+): Promise<ComparisonResult> {
+  const { mode = 'state', fullPage, capture, createMissing = true, ...compareOptions } = options;
+
+  if (mode === 'screenshot') {
+    const store = neuro.getBaselineStore();
+    if (!store) {
+      throw new NeuralDiffError(ErrorType.INVALID_CONFIG, 'Screenshot captures need a `baselineStore` to compare against', {
+        component: 'PlaywrightIntegration',
+        operation: 'captureFromPage',
+        metadata: { name }
+      });
+    }
+
+    const screenshot = await page.screenshot({ fullPage: fullPage ?? false, animations: 'disabled', caret: 'hide' });
+    if (!(await store.get(name))) {
+      if (!createMissing) {
+        throw new NeuralDiffError(ErrorType.BASELINE_NOT_FOUND, `No baseline exists for "${name}"`, {
+          component: 'PlaywrightIntegration',
+          operation: 'captureFromPage'
+        });
+      }
+      await neuro.updateBaseline(name, screenshot);
+      return baselineCreated(name);
+    }
+    return neuro.compare(name, { ...compareOptions, currentImage: screenshot });
+  }
+
+  const state = await serializePageState(page);
+  await neuro.capture(name, { ...state, ...capture, ...(fullPage !== undefined ? { fullPage } : {}) });
+
+  try {
+    return await neuro.compare(name, compareOptions);
+  } catch (error) {
+    if (!createMissing || !isMissingBaselineError(error)) throw error;
+    await neuro.updateBaseline(name);
+    return baselineCreated(name);
+  }
+}
+
+/**
+ * Fixtures for `test.extend<NeuralDiffFixtures>(neuralDiffFixtures())`
+ */
+export function neuralDiffFixtures(options: NeuralDiffFixtureOptions = {}) {
+  const { client, ...defaults } = options;
+
+  return {
+    neuralDiff: async (
+      { page }: { page: PlaywrightPage },
+      use: (fixture: NeuralDiffFixture) => Promise<void>,
+      testInfo: PlaywrightTestInfo
+    ) => {
+      const neuro = client instanceof NeuroSpec ? client : client ? client() : NeuroSpec.fromConfig();
+      const name = baselineName(testInfo);
+      let calls = 0;
+
+      try {
+        await use({
+          client: neuro,
+          name,
+          captureFromPage: async (explicitName, captureOptions) => {
+            calls++;
+            const baseline = explicitName || (calls === 1 ? name : `${name}-${calls}`);
+            const result = await captureFromPage(neuro, page, baseline, { ...defaults, ...captureOptions });
+            await attachResult(testInfo, baseline, result);
+            return result;
+          }
+        });
+      } finally {
+        // A failing test must not leave the fixture's own watchers connected
+        if (neuro !== client) neuro.dispose();
+      }
+    }
+  };
+}
+
+/**
+ * `describe › test` titles as a baseline name, suffixed with the project (e.g. `checkout-pays-by-card@webkit`)
+ */
+export function baselineName(testInfo: Pick<PlaywrightTestInfo, 'titlePath' | 'project'>): string {
+  const base = slug(testInfo.titlePath.slice(1).join(' '));
+  return testInfo.project.name ? `${base}@${slug(testInfo.project.name)}` : base;
+}
+
+async function attachResult(testInfo: PlaywrightTestInfo, name: string, result: ComparisonResult): Promise<void> {
+  if (!result.hasChanges) return;
+
+  await testInfo.attach(`neuraldiff-${name}.json`, { body: JSON.stringify(result, null, 2), contentType: 'application/json' });
+  if (result.diff?.startsWith('data:image/png;base64,')) {
+    await testInfo.attach(`neuraldiff-${name}-diff.png`, {
+      body: Buffer.from(result.diff.slice('data:image/png;base64,'.length), 'base64'),
+      contentType: 'image/png'
+    });
+  }
+}
+
+function baselineCreated(name: string): ComparisonResult {
+  return { name, hasChanges: false, duration: 0, summary: 'Baseline created', changes: [], confidence: 1 };
+}
+
+function toCookie(cookie: PlaywrightCookie): Cookie {
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain,
+    path: cookie.path,
+    // Playwright reports session cookies with expires -1
+    ...(cookie.expires > 0 ? { expires: cookie.expires } : {}),
+    httpOnly: cookie.httpOnly,
+    secure: cookie.secure,
+    // Browsers drop SameSite=None cookies that aren't secure, and capture validation rejects them
+    ...(cookie.sameSite !== 'None' || cookie.secure ? { sameSite: cookie.sameSite } : {})
+  };
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
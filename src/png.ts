@@ -0,0 +1,278 @@
+/**
+ * NeuralDiff SDK - PNG Codec
+ * Minimal PNG decoder and encoder for 8-bit RGBA pixels
+ */
+
+import { deflateSync, inflateSync } from 'zlib';
+import type { RawImage } from './types';
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Adam7 passes: [xStart, yStart, xStep, yStep]
+const ADAM7 = [
+    [0, 0, 8, 8],
+    [4, 0, 8, 8],
+    [0, 4, 4, 8],
+    [2, 0, 4, 4],
+    [0, 2, 2, 4],
+    [1, 0, 2, 2],
+    [0, 1, 1, 2]
+] as const;
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+interface Header {
+    width: number;
+    height: number;
+    bitDepth: number;
+    colorType: number;
+    interlace: number;
+}
+
+export function isPNG(buffer: Uint8Array): boolean {
+    return buffer.length >= 8 && SIGNATURE.every((byte, i) => buffer[i] === byte);
+}
+
+/**
+ * Decode a PNG into RGBA pixels. Supports every color type, bit depth and Adam7 interlacing.
+ */
+export function decodePNG(buffer: Uint8Array): RawImage {
+    if (!isPNG(buffer)) {
+        throw new Error('Not a PNG image (bad signature)');
+    }
+
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    let header: Header | null = null;
+    let palette: Uint8Array | null = null;
+    let transparency: Uint8Array | null = null;
+    const idat: Uint8Array[] = [];
+
+    let offset = 8;
+    while (offset + 8 <= buffer.length) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...buffer.subarray(offset + 4, offset + 8));
+        const dataStart = offset + 8;
+        const data = buffer.subarray(dataStart, dataStart + length);
+        offset = dataStart + length + 4; // skip CRC
+
+        if (type === 'IHDR') {
+            header = {
+                width: view.getUint32(dataStart),
+                height: view.getUint32(dataStart + 4),
+                bitDepth: data[8]!,
+                colorType: data[9]!,
+                interlace: data[12]!
+            };
+        } else if (type === 'PLTE') {
+            palette = data;
+        } else if (type === 'tRNS') {
+            transparency = data;
+        } else if (type === 'IDAT') {
+            idat.push(data);
+        } else if (type === 'IEND') {
+            break;
+        }
+    }
+
+    if (!header) throw new Error('PNG is missing its IHDR chunk');
+    if (CHANNELS[header.colorType] === undefined) throw new Error(`Unsupported PNG color type ${header.colorType}`);
+    if (header.colorType === 3 && !palette) throw new Error('Palette PNG is missing its PLTE chunk');
+
+    const raw = inflateSync(Buffer.concat(idat));
+    const pixels = new Uint8Array(header.width * header.height * 4);
+
+    if (header.interlace === 1) {
+        let position = 0;
+        for (const [xStart, yStart, xStep, yStep] of ADAM7) {
+            const passWidth = Math.ceil((header.width - xStart) / xStep);
+            const passHeight = Math.ceil((header.height - yStart) / yStep);
+            if (passWidth <= 0 || passHeight <= 0) continue;
+
+            position = decodePass(raw, position, passWidth, passHeight, header, palette, transparency,
+                (x, y) => ((yStart + y * yStep) * header!.width + xStart + x * xStep) * 4, pixels);
+        }
+    } else {
+        decodePass(raw, 0, header.width, header.height, header, palette, transparency,
+            (x, y) => (y * header!.width + x) * 4, pixels);
+    }
+
+    return { width: header.width, height: header.height, data: pixels };
+}
+
+/**
+ * Encode RGBA pixels as a non-interlaced 8-bit truecolor+alpha PNG
+ */
+export function encodePNG(image: RawImage): Buffer {
+    const { width, height, data } = image;
+    if (data.length !== width * height * 4) {
+        throw new Error(`Expected ${width * height * 4} bytes of RGBA data, got ${data.length}`);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8; // bit depth
+    header[9] = 6; // RGBA
+    // compression, filter and interlace methods are all 0
+
+    const stride = width * 4;
+    const raw = Buffer.alloc((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+        raw[y * (stride + 1)] = 0; // filter: none
+        raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+    }
+
+    return Buffer.concat([
+        Buffer.from(SIGNATURE),
+        chunk('IHDR', header),
+        chunk('IDAT', deflateSync(raw)),
+        chunk('IEND', Buffer.alloc(0))
+    ]);
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+    const out = Buffer.alloc(12 + data.length);
+    out.writeUInt32BE(data.length, 0);
+    out.write(type, 4, 'ascii');
+    data.copy(out, 8);
+    out.writeUInt32BE(crc32(out.subarray(4, 8 + data.length)), 8 + data.length);
+    return out;
+}
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function decodePass(
+    raw: Uint8Array,
+    start: number,
+    width: number,
+    height: number,
+    header: Header,
+    palette: Uint8Array | null,
+    transparency: Uint8Array | null,
+    target: (x: number, y: number) => number,
+    pixels: Uint8Array
+): number {
+    const channels = CHANNELS[header.colorType]!;
+    const bitsPerPixel = channels * header.bitDepth;
+    const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+    const stride = Math.ceil((width * bitsPerPixel) / 8);
+
+    let previous = new Uint8Array(stride);
+    let position = start;
+
+    for (let y = 0; y < height; y++) {
+        const filter = raw[position]!;
+        const line = raw.slice(position + 1, position + 1 + stride);
+        position += stride + 1;
+        unfilter(filter, line, previous, bytesPerPixel);
+
+        for (let x = 0; x < width; x++) {
+            writePixel(line, x, header, palette, transparency, pixels, target(x, y));
+        }
+        previous = line;
+    }
+
+    return position;
+}
+
+function unfilter(filter: number, line: Uint8Array, previous: Uint8Array, bpp: number): void {
+    for (let i = 0; i < line.length; i++) {
+        const left = i >= bpp ? line[i - bpp]! : 0;
+        const up = previous[i]!;
+        const upLeft = i >= bpp ? previous[i - bpp]! : 0;
+
+        switch (filter) {
+            case 0: break;
+            case 1: line[i] = line[i]! + left; break;
+            case 2: line[i] = line[i]! + up; break;
+            case 3: line[i] = line[i]! + ((left + up) >> 1); break;
+            case 4: line[i] = line[i]! + paeth(left, up, upLeft); break;
+            default: throw new Error(`Invalid PNG filter type ${filter}`);
+        }
+    }
+}
+
+function paeth(a: number, b: number, c: number): number {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) return a;
+    return pb <= pc ? b : c;
+}
+
+function sample(line: Uint8Array, index: number, bitDepth: number): number {
+    if (bitDepth === 8) return line[index]!;
+    if (bitDepth === 16) return (line[index * 2]! << 8) | line[index * 2 + 1]!;
+
+    const perByte = 8 / bitDepth;
+    const byte = line[Math.floor(index / perByte)]!;
+    const shift = 8 - bitDepth * ((index % perByte) + 1);
+    return (byte >> shift) & ((1 << bitDepth) - 1);
+}
+
+function writePixel(
+    line: Uint8Array,
+    x: number,
+    header: Header,
+    palette: Uint8Array | null,
+    transparency: Uint8Array | null,
+    pixels: Uint8Array,
+    out: number
+): void {
+    const { bitDepth, colorType } = header;
+    const channels = CHANNELS[colorType]!;
+    const max = (1 << bitDepth) - 1;
+    const scale = (value: number) => (bitDepth === 16 ? value >> 8 : Math.round((value * 255) / max));
+
+    if (colorType === 3) {
+        const index = sample(line, x, bitDepth);
+        pixels[out] = palette![index * 3] ?? 0;
+        pixels[out + 1] = palette![index * 3 + 1] ?? 0;
+        pixels[out + 2] = palette![index * 3 + 2] ?? 0;
+        pixels[out + 3] = transparency?.[index] ?? 255;
+        return;
+    }
+
+    const values: number[] = [];
+    for (let c = 0; c < channels; c++) {
+        values.push(sample(line, x * channels + c, bitDepth));
+    }
+
+    if (colorType === 0 || colorType === 4) {
+        const gray = scale(values[0]!);
+        pixels[out] = pixels[out + 1] = pixels[out + 2] = gray;
+        if (colorType === 4) {
+            pixels[out + 3] = scale(values[1]!);
+        } else {
+            const key = transparency && transparency.length >= 2 ? (transparency[0]! << 8) | transparency[1]! : -1;
+            pixels[out + 3] = values[0] === key ? 0 : 255;
+        }
+        return;
+    }
+
+    pixels[out] = scale(values[0]!);
+    pixels[out + 1] = scale(values[1]!);
+    pixels[out + 2] = scale(values[2]!);
+    if (colorType === 6) {
+        pixels[out + 3] = scale(values[3]!);
+    } else {
+        const keyed = transparency && transparency.length >= 6 &&
+            [0, 1, 2].every(c => values[c] === ((transparency[c * 2]! << 8) | transparency[c * 2 + 1]!));
+        pixels[out + 3] = keyed ? 0 : 255;
+    }
+}
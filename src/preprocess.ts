@@ -0,0 +1,176 @@
+/**
+ * NeuralDiff SDK - Image Preprocessing
+ * Composable pixel operations applied to baseline and current images before analysis
+ */
+
+import type { ImageProcessingOptions, RawImage } from './types';
+
+export type ImageProcessor = (image: RawImage) => RawImage;
+
+/**
+ * Chain processors left to right
+ */
+export function composeProcessors(...processors: ImageProcessor[]): ImageProcessor {
+    return image => processors.reduce((current, processor) => processor(current), image);
+}
+
+/**
+ * Build the per-image pipeline for `ImageProcessingOptions`.
+ *
+ * Steps always run in the same order: grayscale, normalize, brightness, contrast, blur,
+ * sharpen. `brightness` and `contrast` are multipliers (1 leaves the image unchanged),
+ * `blur` is a Gaussian sigma in pixels and `sharpen` the strength of an unsharp mask.
+ */
+export function createPipeline(options: ImageProcessingOptions = {}): ImageProcessor {
+    const steps: ImageProcessor[] = [];
+
+    if (options.grayscale) steps.push(grayscale);
+    if (options.normalize) steps.push(normalize);
+    if (options.brightness !== undefined && options.brightness !== 1) steps.push(brightness(options.brightness));
+    if (options.contrast !== undefined && options.contrast !== 1) steps.push(contrast(options.contrast));
+    if (options.blur) steps.push(blur(options.blur));
+    if (options.sharpen) steps.push(sharpen(options.sharpen));
+
+    return composeProcessors(...steps);
+}
+
+/**
+ * Preprocess a baseline/current pair. With `resize`, the current image is first scaled to
+ * the baseline's dimensions so screenshots from different device pixel ratios line up.
+ */
+export function preprocessPair(baseline: RawImage, current: RawImage, options: ImageProcessingOptions = {}): [RawImage, RawImage] {
+    const pipeline = createPipeline(options);
+    const aligned = options.resize && (current.width !== baseline.width || current.height !== baseline.height)
+        ? resize(baseline.width, baseline.height)(current)
+        : current;
+
+    return [pipeline(baseline), pipeline(aligned)];
+}
+
+export const grayscale: ImageProcessor = image => mapPixels(image, (r, g, b, a) => {
+    const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+    return [luma, luma, luma, a];
+});
+
+/**
+ * Stretch each color channel to the full 0-255 range
+ */
+export const normalize: ImageProcessor = image => {
+    const min = [255, 255, 255];
+    const max = [0, 0, 0];
+
+    for (let i = 0; i < image.data.length; i += 4) {
+        if (image.data[i + 3] === 0) continue;
+        for (let c = 0; c < 3; c++) {
+            const value = image.data[i + c]!;
+            if (value < min[c]!) min[c] = value;
+            if (value > max[c]!) max[c] = value;
+        }
+    }
+
+    const stretch = (value: number, c: number) =>
+        max[c]! > min[c]! ? ((value - min[c]!) * 255) / (max[c]! - min[c]!) : value;
+
+    return mapPixels(image, (r, g, b, a) => [stretch(r, 0), stretch(g, 1), stretch(b, 2), a]);
+};
+
+export function brightness(factor: number): ImageProcessor {
+    return image => mapPixels(image, (r, g, b, a) => [r * factor, g * factor, b * factor, a]);
+}
+
+export function contrast(factor: number): ImageProcessor {
+    const adjust = (value: number) => (value - 128) * factor + 128;
+    return image => mapPixels(image, (r, g, b, a) => [adjust(r), adjust(g), adjust(b), a]);
+}
+
+export function blur(sigma: number): ImageProcessor {
+    if (!(sigma > 0)) throw new Error(`blur must be a positive number, got ${sigma}`);
+
+    const radius = Math.ceil(sigma * 3);
+    const kernel = Array.from({ length: radius * 2 + 1 }, (_, i) => Math.exp(-((i - radius) ** 2) / (2 * sigma * sigma)));
+    const total = kernel.reduce((sum, weight) => sum + weight, 0);
+    const weights = kernel.map(weight => weight / total);
+
+    return image => convolve(convolve(image, weights, true), weights, false);
+}
+
+export function sharpen(amount: number): ImageProcessor {
+    const soften = blur(1);
+    return image => {
+        const blurred = soften(image);
+        const data = new Uint8ClampedArray(image.data.length);
+        for (let i = 0; i < data.length; i++) {
+            data[i] = (i & 3) === 3
+                ? image.data[i]!
+                : image.data[i]! + amount * (image.data[i]! - blurred.data[i]!);
+        }
+        return { width: image.width, height: image.height, data: new Uint8Array(data.buffer) };
+    };
+}
+
+/**
+ * Bilinear resize to fixed dimensions
+ */
+export function resize(width: number, height: number): ImageProcessor {
+    return image => {
+        const data = new Uint8Array(width * height * 4);
+        const xScale = image.width / width;
+        const yScale = image.height / height;
+
+        for (let y = 0; y < height; y++) {
+            const sy = Math.min(Math.max((y + 0.5) * yScale - 0.5, 0), image.height - 1);
+            const y0 = Math.floor(sy);
+            const y1 = Math.min(y0 + 1, image.height - 1);
+            const fy = sy - y0;
+
+            for (let x = 0; x < width; x++) {
+                const sx = Math.min(Math.max((x + 0.5) * xScale - 0.5, 0), image.width - 1);
+                const x0 = Math.floor(sx);
+                const x1 = Math.min(x0 + 1, image.width - 1);
+                const fx = sx - x0;
+
+                for (let c = 0; c < 4; c++) {
+                    const top = image.data[(y0 * image.width + x0) * 4 + c]! * (1 - fx) + image.data[(y0 * image.width + x1) * 4 + c]! * fx;
+                    const bottom = image.data[(y1 * image.width + x0) * 4 + c]! * (1 - fx) + image.data[(y1 * image.width + x1) * 4 + c]! * fx;
+                    data[(y * width + x) * 4 + c] = Math.round(top * (1 - fy) + bottom * fy);
+                }
+            }
+        }
+
+        return { width, height, data };
+    };
+}
+
+function mapPixels(image: RawImage, fn: (r: number, g: number, b: number, a: number) => number[]): RawImage {
+    const data = new Uint8ClampedArray(image.data.length);
+    for (let i = 0; i < data.length; i += 4) {
+        const [r, g, b, a] = fn(image.data[i]!, image.data[i + 1]!, image.data[i + 2]!, image.data[i + 3]!);
+        data[i] = r!;
+        data[i + 1] = g!;
+        data[i + 2] = b!;
+        data[i + 3] = a!;
+    }
+    return { width: image.width, height: image.height, data: new Uint8Array(data.buffer) };
+}
+
+function convolve(image: RawImage, weights: number[], horizontal: boolean): RawImage {
+    const { width, height } = image;
+    const radius = (weights.length - 1) / 2;
+    const data = new Uint8ClampedArray(image.data.length);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const sums = new Float64Array(4);
+            for (let k = -radius; k <= radius; k++) {
+                const sx = horizontal ? Math.min(Math.max(x + k, 0), width - 1) : x;
+                const sy = horizontal ? y : Math.min(Math.max(y + k, 0), height - 1);
+                const weight = weights[k + radius]!;
+                const i = (sy * width + sx) * 4;
+                for (let c = 0; c < 4; c++) sums[c] = sums[c]! + image.data[i + c]! * weight;
+            }
+            data.set(sums, (y * width + x) * 4);
+        }
+    }
+
+    return { width, height, data: new Uint8Array(data.buffer) };
+}
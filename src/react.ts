@@ -5,60 +5,266 @@
 
 import React from 'react';
 import { NeuroSpec } from './index';
-import type { NeuralDiffOptions, CaptureOptions, CompareOptions } from './types';
+import { ErrorType, NeuralDiffError, toNeuralDiffError } from './errors';
+import type { NeuralDiffOptions, CaptureOptions, CaptureResult, CompareOptions, ComparisonResult } from './types';
 
-// React hook for using NeuralDiff in components
-export function useNeuralDiff(options: NeuralDiffOptions) {
-  const [neuroSpec] = React.useState(() => new NeuroSpec(options));
-  
-  React.useEffect(() => {
-    return () => {
-      // Cleanup WebSocket connections on unmount
-      neuroSpec.removeAllListeners();
-    };
-  }, [neuroSpec]);
+/** Default delay before a change is captured, so bursts of updates produce one capture */
+export const DEFAULT_CAPTURE_DEBOUNCE = 300;
+
+export const NeuralDiffContext = React.createContext<NeuroSpec | null>(null);
+
+export interface NeuralDiffProviderProps {
+  /** Instance to share; otherwise one is created from `options` and disposed on unmount */
+  client?: NeuroSpec;
+  options?: NeuralDiffOptions;
+  children?: React.ReactNode;
+}
+
+export interface NeuralDiffState {
+  isCapturing: boolean;
+  lastCapture: CaptureResult | null;
+  lastComparison: ComparisonResult | null;
+  error: NeuralDiffError | null;
+}
+
+export interface CaptureOnChangeOptions extends Partial<CaptureOptions> {
+  /** Instance to use instead of the provider's */
+  client?: NeuroSpec;
+  /** Compare against the baseline after each capture (default false) */
+  compare?: boolean | CompareOptions;
+  /** Milliseconds to wait after the last change (default 300) */
+  debounce?: number;
+  /** Pause capturing without unmounting (default true) */
+  enabled?: boolean;
+  onError?: (error: NeuralDiffError) => void;
+}
+
+export interface WithNeuralDiffOptions<P> extends CaptureOnChangeOptions {
+  /** Capture name (default the component's display name) */
+  name?: string;
+  /** Props that trigger a capture when they change (default every prop except `children`) */
+  captureOnProps?: Array<keyof P>;
+}
+
+/**
+ * Share one NeuroSpec instance with every hook and wrapped component below it
+ */
+export function NeuralDiffProvider({ client, options, children }: NeuralDiffProviderProps) {
+  const owned = useOwnedClient(client ? null : () => createClient(options));
+  return React.createElement(NeuralDiffContext.Provider, { value: client || owned! }, children);
+}
+
+/**
+ * The provider's instance, or a component-owned one when `options` are given
+ */
+export function useNeuralDiff(options?: NeuralDiffOptions) {
+  const shared = React.useContext(NeuralDiffContext);
+  const owned = useOwnedClient(options ? () => new NeuroSpec(options) : null);
 
+  const neuroSpec = owned || shared;
+  if (!neuroSpec) {
+    throw new NeuralDiffError(ErrorType.INVALID_CONFIG, 'useNeuralDiff() needs options or a surrounding <NeuralDiffProvider>', {
+      component: 'ReactIntegration',
+      operation: 'useNeuralDiff'
+    });
+  }
   return neuroSpec;
 }
 
 // React hook for capturing screenshots
-export function useCapture(neuroSpec: NeuroSpec) {
+export function useCapture(client?: NeuroSpec) {
+  const neuroSpec = useClient(client);
   const [isCapturing, setIsCapturing] = React.useState(false);
-  const [lastCapture, setLastCapture] = React.useState<any>(null);
+  const [lastCapture, setLastCapture] = React.useState<CaptureResult | null>(null);
+  const [error, setError] = React.useState<NeuralDiffError | null>(null);
 
   const capture = React.useCallback(async (name: string, options?: CaptureOptions) => {
     setIsCapturing(true);
+    setError(null);
     try {
       const result = await neuroSpec.capture(name, options);
       setLastCapture(result);
       return result;
+    } catch (err) {
+      const failure = toNeuralDiffError(err, { component: 'ReactIntegration', operation: 'capture' });
+      setError(failure);
+      throw failure;
     } finally {
       setIsCapturing(false);
     }
   }, [neuroSpec]);
 
-  return { capture, isCapturing, lastCapture };
+  return { capture, isCapturing, lastCapture, error };
 }
 
 // React hook for comparing screenshots
-export function useCompare(neuroSpec: NeuroSpec) {
+export function useCompare(client?: NeuroSpec) {
+  const neuroSpec = useClient(client);
   const [isComparing, setIsComparing] = React.useState(false);
-  const [lastComparison, setLastComparison] = React.useState<any>(null);
+  const [lastComparison, setLastComparison] = React.useState<ComparisonResult | null>(null);
+  const [error, setError] = React.useState<NeuralDiffError | null>(null);
 
   const compare = React.useCallback(async (name: string, options?: CompareOptions) => {
     setIsComparing(true);
+    setError(null);
     try {
       const result = await neuroSpec.compare(name, options);
       setLastComparison(result);
       return result;
+    } catch (err) {
+      const failure = toNeuralDiffError(err, { component: 'ReactIntegration', operation: 'compare' });
+      setError(failure);
+      throw failure;
     } finally {
       setIsComparing(false);
     }
   }, [neuroSpec]);
 
-  return { compare, isComparing, lastComparison };
+  return { compare, isComparing, lastComparison, error };
+}
+
+/**
+ * Capture the current page as `name` on mount and whenever `deps` change (debounced),
+ * optionally comparing it against the baseline. Failures land in `error` instead of throwing.
+ */
+export function useCaptureOnChange(name: string, deps: React.DependencyList, options: CaptureOnChangeOptions = {}) {
+  const { client, compare = false, debounce = DEFAULT_CAPTURE_DEBOUNCE, enabled = true, onError, ...capture } = options;
+  const neuroSpec = useClient(client);
+  const [state, setState] = React.useState<NeuralDiffState>({ isCapturing: false, lastCapture: null, lastComparison: null, error: null });
+
+  // Read the latest options when the capture fires rather than re-scheduling on every render
+  const latest = React.useRef({ name, compare, onError, capture });
+  latest.current = { name, compare, onError, capture };
+  const mounted = React.useRef(true);
+  React.useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  const captureNow = React.useCallback(async () => {
+    const { name: captureName, compare: compareWith, onError: report, capture: captureOptions } = latest.current;
+    const update = (next: Partial<NeuralDiffState>) => {
+      if (mounted.current) setState(current => ({ ...current, ...next }));
+    };
+
+    update({ isCapturing: true, error: null });
+    try {
+      const url = captureOptions.url ?? (typeof window !== 'undefined' ? window.location.href : undefined);
+      if (!url) {
+        throw new NeuralDiffError(ErrorType.INVALID_CONFIG, 'Pass a `url` to capture outside the browser', {
+          component: 'ReactIntegration',
+          operation: 'captureOnChange'
+        });
+      }
+      const lastCapture = await neuroSpec.capture(captureName, { ...captureOptions, url });
+      const lastComparison = compareWith
+        ? await neuroSpec.compare(captureName, compareWith === true ? undefined : compareWith)
+        : null;
+      update({ isCapturing: false, lastCapture, ...(lastComparison ? { lastComparison } : {}) });
+    } catch (err) {
+      const failure = toNeuralDiffError(err, { component: 'ReactIntegration', operation: 'captureOnChange' });
+      update({ isCapturing: false, error: failure });
+      report?.(failure);
+    }
+  }, [neuroSpec]);
+
+  React.useEffect(() => {
+    if (!enabled) return undefined;
+    const timer = setTimeout(() => void captureNow(), debounce);
+    return () => clearTimeout(timer);
+    // The caller's deps decide when to capture
+  }, [enabled, debounce, captureNow, ...deps]);
+
+  return { ...state, captureNow };
+}
+
+/**
+ * Wrap a component so it is captured on mount and whenever the watched props change
+ */
+export function withNeuralDiff<P extends object>(Component: React.ComponentType<P>, options: WithNeuralDiffOptions<P> = {}) {
+  const { name, captureOnProps, ...captureOptions } = options;
+  const componentName = Component.displayName || Component.name || 'Component';
+
+  function WithNeuralDiff(props: P) {
+    const watched = watchedProps(props, captureOnProps);
+    const previous = React.useRef(watched);
+    const version = React.useRef(0);
+    if (!shallowEqual(previous.current, watched)) {
+      previous.current = watched;
+      version.current++;
+    }
+
+    useCaptureOnChange(name || componentName, [version.current], captureOptions);
+    return React.createElement(Component, props);
+  }
+
+  WithNeuralDiff.displayName = `withNeuralDiff(${componentName})`;
+  return WithNeuralDiff;
+}
+
+function useClient(client?: NeuroSpec): NeuroSpec {
+  const shared = React.useContext(NeuralDiffContext);
+  const neuroSpec = client || shared;
+  if (!neuroSpec) {
+    throw new NeuralDiffError(ErrorType.INVALID_CONFIG, 'Pass a NeuroSpec instance or render inside <NeuralDiffProvider>', {
+      component: 'ReactIntegration',
+      operation: 'useClient'
+    });
+  }
+  return neuroSpec;
+}
+
+/**
+ * An instance created with `create` and disposed on unmount, or null without `create`.
+ *
+ * The instance is dropped when its effect is cleaned up and recreated when the effect runs
+ * again, so StrictMode's unmount/remount check doesn't leave the tree with a disposed instance.
+ */
+function useOwnedClient(create: (() => NeuroSpec) | null): NeuroSpec | null {
+  const owned = React.useRef<NeuroSpec | null>(null);
+  const [, refresh] = React.useReducer((count: number) => count + 1, 0);
+  if (create && !owned.current) owned.current = create();
+
+  const enabled = create !== null;
+  React.useEffect(() => {
+    if (!create) return undefined;
+    if (!owned.current) {
+      owned.current = create();
+      refresh();
+    }
+    const instance = owned.current;
+    return () => {
+      instance.dispose();
+      if (owned.current === instance) owned.current = null;
+    };
+    // Options are read once per owned instance, like the initial state of a hook
+  }, [enabled]);
+
+  return create ? owned.current : null;
+}
+
+function createClient(options?: NeuralDiffOptions): NeuroSpec {
+  if (!options) {
+    throw new NeuralDiffError(ErrorType.INVALID_CONFIG, '<NeuralDiffProvider> needs a `client` or `options`', {
+      component: 'ReactIntegration',
+      operation: 'NeuralDiffProvider'
+    });
+  }
+  return new NeuroSpec(options);
+}
+
+function watchedProps<P extends object>(props: P, keys?: Array<keyof P>): Record<string, unknown> {
+  const names = keys ? keys.map(String) : Object.keys(props).filter(key => key !== 'children');
+  return Object.fromEntries(names.map(key => [key, (props as Record<string, unknown>)[key]]));
+}
+
+function shallowEqual(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => Object.is(a[key], b[key]));
 }
 
 // Re-export main SDK
 export { NeuroSpec } from './index';
-export type { NeuralDiffOptions, CaptureOptions, CompareOptions } from './types'; 
\ No newline at end of file
+export type { NeuralDiffOptions, CaptureOptions, CompareOptions, CaptureResult, ComparisonResult } from './types';
@@ -0,0 +1,338 @@
+/**
+ * NeuralDiff SDK - CI Reports
+ * Writes comparison and batch results as JUnit XML, SARIF or a stable JSON report
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SDK_VERSION } from './version';
+import type {
+    BatchResult,
+    ChangeType,
+    ComparisonResult,
+    JsonReport,
+    ReportEntry,
+    ReportFormat,
+    ReportOptions,
+    ReportPolicy,
+    Region,
+    SemanticChange
+} from './types';
+
+export type ReportInput = ComparisonResult | BatchResult;
+
+export const DEFAULT_REPORT_POLICY: Required<ReportPolicy> = { failOn: 'low', minConfidence: 0 };
+
+const SEVERITY_RANK: Record<SemanticChange['severity'], number> = { low: 0, medium: 1, high: 2 };
+
+const SARIF_LEVELS: Record<SemanticChange['severity'], 'note' | 'warning' | 'error'> = {
+    low: 'note',
+    medium: 'warning',
+    high: 'error'
+};
+
+const INFORMATION_URI = 'https://docs.neuraldiff.dev';
+
+/**
+ * Normalize comparison and batch results into report entries, applying the failure policy
+ */
+export function buildReportEntries(results: ReportInput[], policy: ReportPolicy = {}): ReportEntry[] {
+    const resolved = { ...DEFAULT_REPORT_POLICY, ...policy };
+    return results.map(result => toEntry(result, resolved));
+}
+
+/**
+ * Changes that fail a comparison under the policy
+ */
+export function policyFailures(changes: SemanticChange[], policy: ReportPolicy = {}): SemanticChange[] {
+    const { failOn, minConfidence } = { ...DEFAULT_REPORT_POLICY, ...policy };
+    return changes.filter(change => SEVERITY_RANK[change.severity] >= SEVERITY_RANK[failOn] && change.confidence >= minConfidence);
+}
+
+/**
+ * Versioned JSON report; new fields may be added but existing ones keep their meaning.
+ * Inline (`data:`) images are left out, so only diffs written to a `diffPath` are referenced.
+ */
+export function toJsonReport(results: ReportInput[], options: ReportOptions = {}): JsonReport {
+    const policy = { ...DEFAULT_REPORT_POLICY, ...options.policy };
+    const entries = buildReportEntries(results, policy);
+    const count = (status: ReportEntry['status']) => entries.filter(entry => entry.status === status).length;
+
+    return {
+        schemaVersion: 1,
+        tool: { name: 'neuraldiff', version: SDK_VERSION },
+        name: options.suiteName || 'NeuralDiff',
+        generatedAt: (options.timestamp || new Date()).toISOString(),
+        policy,
+        summary: {
+            total: entries.length,
+            passed: count('passed'),
+            failed: count('failed'),
+            errors: count('error'),
+            skipped: count('skipped'),
+            duration: entries.reduce((sum, entry) => sum + entry.duration, 0)
+        },
+        results: entries.map(withoutInlineImages)
+    };
+}
+
+/**
+ * JUnit XML with one testcase per name; policy violations are failures, daemon errors are errors
+ */
+export function toJUnitXml(results: ReportInput[], options: ReportOptions = {}): string {
+    const report = toJsonReport(results, options);
+    const { summary } = report;
+    const counts = `tests="${summary.total}" failures="${summary.failed}" errors="${summary.errors}" skipped="${summary.skipped}" time="${seconds(summary.duration)}"`;
+
+    const testcases = report.results.map(entry => {
+        const open = `    <testcase classname="neuraldiff" name="${escapeXml(entry.name)}" time="${seconds(entry.duration)}"`;
+        const body: string[] = [];
+
+        if (entry.status === 'failed') {
+            const details = (entry.failures.length > 0 ? entry.failures : entry.changes).map(describeChange).join('\n');
+            body.push(`      <failure message="${escapeXml(entry.summary)}" type="VisualRegression">${escapeXml(details)}</failure>`);
+        } else if (entry.status === 'error') {
+            body.push(`      <error message="${escapeXml(entry.error || entry.summary)}" type="NeuralDiffError"/>`);
+        } else if (entry.status === 'skipped') {
+            body.push(`      <skipped message="${escapeXml(entry.error || entry.summary)}"/>`);
+        }
+
+        const artifacts = (['diff', 'baseline', 'current'] as const)
+            .filter(key => entry[key])
+            .map(key => `${key}: ${entry[key]}`);
+        if (artifacts.length > 0) {
+            body.push(`      <system-out>${escapeXml(artifacts.join('\n'))}</system-out>`);
+        }
+
+        return body.length > 0 ? `${open}>\n${body.join('\n')}\n    </testcase>` : `${open}/>`;
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="${escapeXml(report.name)}" ${counts}>`,
+        `  <testsuite name="${escapeXml(report.name)}" ${counts} timestamp="${report.generatedAt}">`,
+        ...testcases,
+        '  </testsuite>',
+        '</testsuites>',
+        ''
+    ].join('\n');
+}
+
+/**
+ * SARIF 2.1.0 log with one result per semantic change, ruled by change type.
+ *
+ * SARIF regions describe text, so the location points at the current (or diff) screenshot, or
+ * at the baseline name when neither was written to disk. A change's pixel `coordinates` go in
+ * the result's property bag and, with a screenshot, as a rectangle on an attachment of it.
+ */
+export function toSarif(results: ReportInput[], options: ReportOptions = {}): Record<string, unknown> {
+    const report = toJsonReport(results, options);
+    const ruleIds = Array.from(new Set(report.results.flatMap(entry => entry.changes.map(change => change.type)))).sort();
+
+    const sarifResults = report.results.flatMap(entry => entry.changes.map(change => {
+        const failing = entry.failures.includes(change);
+        const image = entry.current || entry.diff;
+        return {
+            ruleId: ruleId(change.type),
+            ruleIndex: ruleIds.indexOf(change.type),
+            level: failing ? SARIF_LEVELS[change.severity] : 'note',
+            message: { text: `${entry.name}: ${change.element} - ${change.change}${change.suggestion ? ` (${change.suggestion})` : ''}` },
+            locations: [{
+                physicalLocation: { artifactLocation: { uri: artifactUri(image || entry.name) } },
+                logicalLocations: [{ name: change.element, fullyQualifiedName: `${entry.name}/${change.element}`, kind: 'element' }]
+            }],
+            ...(image && change.coordinates ? {
+                attachments: [{
+                    description: { text: `${change.element} in ${entry.name}` },
+                    artifactLocation: { uri: artifactUri(image) },
+                    rectangles: [rectangle(change.coordinates)]
+                }]
+            } : {}),
+            partialFingerprints: { 'neuraldiff/v1': fingerprint(entry.name, change) },
+            properties: {
+                name: entry.name,
+                severity: change.severity,
+                confidence: change.confidence,
+                failing,
+                ...(change.coordinates ? { coordinates: { ...change.coordinates } } : {})
+            }
+        };
+    }));
+
+    const notifications = report.results
+        .filter(entry => entry.status === 'error')
+        .map(entry => ({ level: 'error', message: { text: `${entry.name}: ${entry.error || entry.summary}` } }));
+
+    return {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'NeuralDiff',
+                    version: SDK_VERSION,
+                    informationUri: INFORMATION_URI,
+                    rules: ruleIds.map(type => ({
+                        id: ruleId(type),
+                        name: `Visual${type.charAt(0).toUpperCase()}${type.slice(1)}Change`,
+                        shortDescription: { text: `Visual ${type} change` },
+                        helpUri: `${INFORMATION_URI}/changes/${type}`
+                    }))
+                }
+            },
+            invocations: [{
+                executionSuccessful: notifications.length === 0,
+                endTimeUtc: report.generatedAt,
+                ...(notifications.length > 0 ? { toolExecutionNotifications: notifications } : {})
+            }],
+            results: sarifResults
+        }]
+    };
+}
+
+/**
+ * Render results in the given report format
+ */
+export function formatReport(format: ReportFormat, results: ReportInput[], options: ReportOptions = {}): string {
+    switch (format) {
+        case 'junit':
+            return toJUnitXml(results, options);
+        case 'sarif':
+            return `${JSON.stringify(toSarif(results, options), null, 2)}\n`;
+        case 'json':
+            return `${JSON.stringify(toJsonReport(results, options), null, 2)}\n`;
+        default:
+            throw new Error(`Unknown report format "${format}"`);
+    }
+}
+
+/**
+ * Write a report to disk, creating its directory if needed
+ */
+export async function writeReport(file: string, format: ReportFormat, results: ReportInput[], options: ReportOptions = {}): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, formatReport(format, results, options));
+}
+
+/**
+ * Turn a saved JSON report back into results, so it can be re-rendered or re-judged under another policy
+ */
+export function reportInputs(report: JsonReport): ReportInput[] {
+    return report.results.map((entry): ReportInput => {
+        if (entry.status === 'error' || entry.status === 'skipped') {
+            return {
+                name: entry.name,
+                type: 'compare',
+                status: entry.status,
+                ...(entry.error ? { error: entry.error } : {}),
+                attempts: 1,
+                duration: entry.duration
+            };
+        }
+        return {
+            name: entry.name,
+            hasChanges: entry.status === 'failed' || entry.changes.length > 0,
+            duration: entry.duration,
+            summary: entry.summary,
+            changes: entry.changes,
+            confidence: entry.confidence ?? 1,
+            ...(entry.diff ? { diff: entry.diff } : {}),
+            ...(entry.baseline ? { baseline: entry.baseline } : {}),
+            ...(entry.current ? { current: entry.current } : {})
+        };
+    });
+}
+
+function toEntry(result: ReportInput, policy: Required<ReportPolicy>): ReportEntry {
+    if (!isBatchResult(result)) return comparisonEntry(result, policy);
+
+    const base = { name: result.name, duration: result.duration, changes: [], failures: [] };
+    if (result.status === 'skipped') {
+        return { ...base, status: 'skipped', summary: 'Skipped', ...(result.error ? { error: result.error } : {}) };
+    }
+    if (result.status === 'error') {
+        return { ...base, status: 'error', summary: `${result.type} failed`, error: result.error || 'Unknown error' };
+    }
+    if (result.result && 'hasChanges' in result.result) {
+        return { ...comparisonEntry(result.result, policy), name: result.name, duration: result.duration };
+    }
+    return { ...base, status: 'passed', summary: 'Captured' };
+}
+
+function comparisonEntry(result: ComparisonResult, policy: Required<ReportPolicy>): ReportEntry {
+    const failures = result.hasChanges ? policyFailures(result.changes, policy) : [];
+    // A change the daemon couldn't break down can't be judged against the policy, so it fails
+    const failed = failures.length > 0 || (result.hasChanges && result.changes.length === 0);
+
+    return {
+        name: result.name,
+        status: failed ? 'failed' : 'passed',
+        duration: result.duration,
+        summary: result.summary,
+        confidence: result.confidence,
+        changes: result.changes,
+        failures,
+        ...(result.diff ? { diff: result.diff } : {}),
+        ...(result.baseline ? { baseline: result.baseline } : {}),
+        ...(result.current ? { current: result.current } : {})
+    };
+}
+
+function withoutInlineImages(entry: ReportEntry): ReportEntry {
+    const { diff, baseline, current, ...rest } = entry;
+    return {
+        ...rest,
+        ...(diff && !isDataUri(diff) ? { diff } : {}),
+        ...(baseline && !isDataUri(baseline) ? { baseline } : {}),
+        ...(current && !isDataUri(current) ? { current } : {})
+    };
+}
+
+function isDataUri(value: string): boolean {
+    return /^data:/i.test(value);
+}
+
+// Relative file paths become URI references; URLs are kept as they are
+function artifactUri(location: string): string {
+    return /^[a-z][a-z0-9+.-]*:\/\//i.test(location) ? location : encodeURI(location.split(path.sep).join('/'));
+}
+
+function rectangle(region: Region): { top: number; left: number; bottom: number; right: number } {
+    return { top: region.y, left: region.x, bottom: region.y + region.height, right: region.x + region.width };
+}
+
+function isBatchResult(result: ReportInput): result is BatchResult {
+    return 'status' in result && 'attempts' in result;
+}
+
+function ruleId(type: ChangeType): string {
+    return `neuraldiff/${type}`;
+}
+
+// `element` is the page, so the selector (or, without one, the box) and the description tell
+// apart several changes of one type on the same page
+function fingerprint(name: string, change: SemanticChange): string {
+    const box = change.coordinates ? [change.coordinates.x, change.coordinates.y, change.coordinates.width, change.coordinates.height].join(',') : '';
+    const parts = [name, change.type, change.element, change.selector ?? box, change.change];
+    return createHash('sha256').update(parts.join('\0')).digest('hex').slice(0, 16);
+}
+
+function describeChange(change: SemanticChange): string {
+    return `[${change.severity}] ${change.element}: ${change.change}`;
+}
+
+function seconds(ms: number): string {
+    return (ms / 1000).toFixed(3);
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+        // characters XML 1.0 can't represent at all
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
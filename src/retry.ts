@@ -0,0 +1,98 @@
+/**
+ * NeuralDiff SDK - Retry Policy
+ * Exponential backoff with jitter for transient daemon failures, honoring Retry-After
+ */
+
+import { ErrorType, NeuralDiffError, toNeuralDiffError } from './errors';
+import type { ErrorContext } from './errors';
+import type { RetryPolicy } from './types';
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+    maxAttempts: 3,
+    initialDelay: 250,
+    maxDelay: 10000,
+    factor: 2,
+    jitter: 0.5,
+    retryOn: [
+        ErrorType.DAEMON_UNAVAILABLE,
+        ErrorType.NETWORK_ERROR,
+        ErrorType.PAGE_LOAD_TIMEOUT,
+        ErrorType.INSUFFICIENT_RESOURCES,
+        ErrorType.AI_ANALYSIS_TIMEOUT
+    ],
+    respectRetryAfter: true
+};
+
+export interface RetryAttempt {
+    /** The attempt that just failed, starting at 1 */
+    attempt: number;
+    maxAttempts: number;
+    delay: number;
+    error: NeuralDiffError;
+}
+
+export function resolveRetryPolicy(policy?: RetryPolicy | false): Required<RetryPolicy> {
+    if (policy === false) return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+    return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * How long to wait before the next attempt, or null when the error should not be retried.
+ *
+ * 429 and 503 responses carrying `Retry-After` wait exactly as long as the daemon asks; if
+ * that is longer than `maxDelay` the call gives up instead of retrying early.
+ */
+export function computeRetryDelay(policy: Required<RetryPolicy>, attempt: number, error: NeuralDiffError, random: () => number = Math.random): number | null {
+    if (attempt >= policy.maxAttempts || !policy.retryOn.includes(error.type)) {
+        return null;
+    }
+
+    if (policy.respectRetryAfter && (error.statusCode === 429 || error.statusCode === 503)) {
+        const retryAfter = parseRetryAfter((error.cause as any)?.response?.headers?.['retry-after']);
+        if (retryAfter !== null) {
+            return retryAfter <= policy.maxDelay ? retryAfter : null;
+        }
+    }
+
+    const backoff = Math.min(policy.maxDelay, policy.initialDelay * Math.pow(policy.factor, attempt - 1));
+    const jitter = Math.min(1, Math.max(0, policy.jitter));
+    return Math.round(backoff * (1 - jitter * random()));
+}
+
+/**
+ * Run `operation` until it succeeds, the policy gives up, or the error is not retryable.
+ * Failures are rethrown as `NeuralDiffError`s.
+ */
+export async function withRetry<T>(
+    operation: () => Promise<T>,
+    policy: Required<RetryPolicy>,
+    options: { context?: Partial<ErrorContext>; onRetry?: (attempt: RetryAttempt) => void } = {}
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            const failure = toNeuralDiffError(error, options.context);
+            const delay = computeRetryDelay(policy, attempt, failure);
+            if (delay === null) throw failure;
+
+            options.onRetry?.({ attempt, maxAttempts: policy.maxAttempts, delay, error: failure });
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+}
+
+/**
+ * `Retry-After` is either delay seconds or an HTTP date
+ */
+export function parseRetryAfter(value: unknown): number | null {
+    if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+    const text = String(value).trim();
+    if (/^\d+(\.\d+)?$/.test(text)) {
+        return Math.round(parseFloat(text) * 1000);
+    }
+
+    const date = Date.parse(text);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
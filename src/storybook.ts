@@ -0,0 +1,191 @@
+/**
+ * NeuralDiff SDK - Storybook Integration
+ * Turns every story of a built or running Storybook into a batch operation, so each component state gets a baseline
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import axios from 'axios';
+import { ErrorType, NeuralDiffError } from './errors';
+import { captureOperation, createMissingBaselines } from './batch';
+import { viewportLabel } from './matrix';
+import type { NeuroSpec } from './index';
+import type { BatchOperation, BatchOptions, BatchResult, CaptureOptions, CompareOptions, Viewport } from './types';
+
+/** Index files tried in order: Storybook 7+ writes `index.json`, Storybook 6 `stories.json` */
+export const STORYBOOK_INDEX_FILES = ['index.json', 'stories.json'] as const;
+
+/** Height used for story viewports given only as a width */
+export const DEFAULT_STORY_HEIGHT = 800;
+
+export interface StorybookStory {
+  id: string;
+  title: string;
+  name: string;
+  importPath?: string;
+  tags?: string[];
+  /** Story parameters, when the index carries them */
+  parameters?: Record<string, any>;
+}
+
+/** Per-story settings, read from `parameters.neuraldiff` */
+export interface NeuralDiffStoryParameters {
+  /** Leave the story out */
+  disable?: boolean;
+  /** Widths, names of the configured `viewports`, or full viewports; each becomes a `story-id@label` baseline */
+  viewports?: Array<number | string | Viewport>;
+  /** Selectors whose changes are ignored */
+  ignore?: string[];
+  threshold?: number;
+  waitFor?: string | number;
+}
+
+export interface StoryOperationOptions extends CompareOptions {
+  /** Where the Storybook is served, e.g. `http://localhost:6006` */
+  url: string;
+  /** Default viewports for stories that don't set their own */
+  viewports?: Viewport[];
+  /** Capture settings applied to every story */
+  capture?: Partial<Omit<CaptureOptions, 'url'>>;
+  /** 'compare' (default) captures and compares each story; 'capture' only captures */
+  mode?: 'compare' | 'capture';
+  /** Parameters for stories whose index doesn't carry them; merged over `parameters.neuraldiff` */
+  parameters?: (story: StorybookStory) => NeuralDiffStoryParameters | undefined;
+}
+
+export interface StorybookOptions extends Omit<StoryOperationOptions, 'url'> {
+  /** A built Storybook directory (`storybook-static`) or the URL of a running one */
+  source: string;
+  /** Where the stories are served; defaults to `source` when it is a URL */
+  url?: string;
+  filter?: (story: StorybookStory) => boolean;
+  /** Store a story as its baseline when none exists yet (default true) */
+  createMissing?: boolean;
+  batch?: BatchOptions;
+}
+
+/**
+ * Read the stories of a Storybook, skipping docs entries
+ */
+export async function loadStorybookIndex(source: string): Promise<StorybookStory[]> {
+  let lastError: unknown;
+
+  for (const file of STORYBOOK_INDEX_FILES) {
+    let index: any;
+    try {
+      index = isUrl(source)
+        ? (await axios.get(new URL(file, withSlash(source)).toString(), { timeout: 30000 })).data
+        : JSON.parse(await fs.readFile(path.join(source, file), 'utf8'));
+    } catch (error) {
+      lastError = error;
+      continue;
+    }
+    return parseStorybookIndex(index, `${source} (${file})`);
+  }
+
+  throw new NeuralDiffError(ErrorType.INVALID_INPUT, `No ${STORYBOOK_INDEX_FILES.join(' or ')} found in "${source}"; build Storybook first`, {
+    component: 'StorybookIntegration',
+    operation: 'loadStorybookIndex'
+  }, { cause: lastError });
+}
+
+/**
+ * Stories from a parsed `index.json` (v4/v5 `entries`) or `stories.json` (v3 `stories`)
+ */
+export function parseStorybookIndex(index: any, source = 'Storybook index'): StorybookStory[] {
+  const entries = index?.entries || index?.stories;
+  if (!entries || typeof entries !== 'object') {
+    throw new NeuralDiffError(ErrorType.INVALID_INPUT, `${source} has no entries or stories`, {
+      component: 'StorybookIntegration',
+      operation: 'parseStorybookIndex'
+    });
+  }
+
+  return Object.values<any>(entries)
+    .filter(entry => (entry.type ?? 'story') === 'story' && !entry.parameters?.docsOnly)
+    .map(entry => ({
+      id: entry.id,
+      title: entry.title ?? entry.kind,
+      name: entry.name ?? entry.story,
+      ...(entry.importPath ? { importPath: entry.importPath } : {}),
+      ...(Array.isArray(entry.tags) ? { tags: entry.tags } : {}),
+      ...(entry.parameters ? { parameters: entry.parameters } : {})
+    }));
+}
+
+/**
+ * One batch operation per story and viewport, capturing `iframe.html?id=<story>`
+ */
+export function storyOperations(stories: StorybookStory[], options: StoryOperationOptions): BatchOperation[] {
+  const { url, viewports, capture, mode = 'compare', parameters, ...compare } = options;
+
+  return stories.flatMap(story => {
+    const params: NeuralDiffStoryParameters = { ...story.parameters?.neuraldiff, ...parameters?.(story) };
+    if (params.disable) return [];
+
+    const captureOptions: CaptureOptions = {
+      ...capture,
+      url: storyUrl(url, story.id),
+      ...(params.waitFor !== undefined ? { waitFor: params.waitFor } : {})
+    };
+    const compareOptions: CompareOptions = {
+      ...compare,
+      ...(params.threshold !== undefined ? { threshold: params.threshold } : {}),
+      ...(params.ignore ? { ignoredSelectors: [...(compare.ignoredSelectors || []), ...params.ignore] } : {})
+    };
+
+    const storyViewports = params.viewports ? params.viewports.map(viewport => resolveViewport(viewport, viewports, story)) : viewports || [];
+    const variants = storyViewports.length > 0
+      ? storyViewports.map(viewport => ({ name: `${story.id}@${viewportLabel(viewport)}`, options: { ...captureOptions, viewport } }))
+      : [{ name: story.id, options: captureOptions }];
+
+    return variants.map(variant => captureOperation(variant.name, variant.options, mode === 'capture' ? false : compareOptions));
+  });
+}
+
+/**
+ * Capture (and by default compare) every story through `batch()`
+ */
+export async function captureStorybook(neuro: NeuroSpec, options: StorybookOptions): Promise<BatchResult[]> {
+  const { source, url = isUrl(source) ? source : undefined, filter, createMissing = true, batch, ...rest } = options;
+  if (!url) {
+    throw new NeuralDiffError(ErrorType.INVALID_CONFIG, `Pass the \`url\` the Storybook in "${source}" is served from`, {
+      component: 'StorybookIntegration',
+      operation: 'captureStorybook'
+    });
+  }
+
+  const stories = (await loadStorybookIndex(source)).filter(story => !filter || filter(story));
+  const results = await neuro.batch(storyOperations(stories, { ...rest, url }), batch);
+  return rest.mode !== 'capture' && createMissing ? createMissingBaselines(results, name => neuro.updateBaseline(name)) : results;
+}
+
+/**
+ * The iframe URL that renders a single story
+ */
+export function storyUrl(url: string, storyId: string): string {
+  return new URL(`iframe.html?id=${encodeURIComponent(storyId)}&viewMode=story`, withSlash(url)).toString();
+}
+
+function resolveViewport(viewport: number | string | Viewport, named: Viewport[] | undefined, story: StorybookStory): Viewport {
+  if (typeof viewport === 'number') return { width: viewport, height: DEFAULT_STORY_HEIGHT };
+  if (typeof viewport !== 'string') return viewport;
+
+  const match = named?.find(candidate => candidate.name === viewport);
+  if (!match) {
+    throw new NeuralDiffError(ErrorType.INVALID_CONFIG, `Story "${story.id}" uses unknown viewport "${viewport}"`, {
+      component: 'StorybookIntegration',
+      operation: 'storyOperations',
+      metadata: { available: (named || []).map(candidate => candidate.name) }
+    });
+  }
+  return match;
+}
+
+function isUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+function withSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
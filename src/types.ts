@@ -2,6 +2,10 @@
  * NeuralDiff SDK Type Definitions
  */
 
+import type { AxiosInstance } from 'axios';
+import type { ErrorType, NeuralDiffError } from './errors';
+import type { WatchSocket } from './watch-manager';
+
 export interface NeuralDiffOptions {
     apiKey: string;
     apiUrl?: string;
@@ -9,6 +13,22 @@ export interface NeuralDiffOptions {
     concurrency?: number;
     comparison?: CompareOptions;
     capture?: Partial<CaptureOptions>;
+    project?: string;
+    baseUrl?: string;
+    viewports?: Viewport[];
+    ignore?: IgnoreRule[];
+    imageProcessing?: ImageProcessingOptions;
+    baselineStore?: BaselineStore;
+    branchBaselines?: boolean;
+    watchReconnect?: WatchReconnectOptions | false;
+    retry?: RetryPolicy | false;
+    daemon?: DaemonOptions;
+    branch?: string;
+    defaultBranch?: string;
+    /** Axios instance for daemon requests, e.g. with a proxy agent; gets the SDK's base URL, headers and error handling */
+    httpClient?: AxiosInstance;
+    /** Opens the watch WebSocket (default: the `ws` package) */
+    createWatchSocket?: (url: string) => WatchSocket;
   }
   
   export interface CaptureOptions {
@@ -35,18 +55,33 @@ export interface NeuralDiffOptions {
     colorScheme?: 'light' | 'dark' | 'no-preference';
     reducedMotion?: 'reduce' | 'no-preference';
     forcedColors?: 'active' | 'none';
+    storageState?: StorageState;
+  }
+  
+  /** localStorage to restore per origin before the page loads (Playwright's `storageState().origins`) */
+  export interface StorageState {
+    origins: { origin: string; localStorage: { name: string; value: string }[] }[];
   }
   
   export interface CompareOptions {
     algorithm?: 'fast' | 'accurate' | 'hybrid';
     threshold?: number;
     ignoredRegions?: Region[];
+    ignoredSelectors?: string[];
     includeAA?: boolean;
     includeAntialiasing?: boolean;
     alpha?: number;
     diffColor?: string;
     diffColorAlt?: string;
     diffMask?: boolean;
+    baselineImage?: ImageSource;
+    currentImage?: ImageSource;
+    /** Opt in to the perceptual hash pre-check (`true` or hash options); off by default */
+    hash?: PerceptualHashOptions | boolean;
+    hashTolerance?: number;
+    pixelThreshold?: number;
+    diffPath?: string;
+    imageProcessing?: ImageProcessingOptions;
   }
   
   export interface ComparisonResult {
@@ -63,7 +98,10 @@ export interface NeuralDiffOptions {
   }
   
   export interface SemanticChange {
+    /** Page or component the daemon attributes the change to */
     element: string;
+    /** CSS selector of the changed DOM element, when the daemon could resolve one */
+    selector?: string;
     change: string;
     severity: 'low' | 'medium' | 'high';
     suggestion?: string;
@@ -92,9 +130,56 @@ export interface NeuralDiffOptions {
     onError?: (error: Error) => void;
     includeStyles?: boolean;
     includeDOMChanges?: boolean;
+    signal?: AbortSignal;
+    debounce?: number;
+    bufferSize?: number;
+  }
+  
+  export interface DaemonOptions {
+    candidates?: string[];
+    probeTimeout?: number;
+    autoConnect?: boolean;
+    onIncompatible?: 'error' | 'warn';
+  }
+  
+  export interface DaemonInfo {
+    url: string;
+    status: string;
+    version: string;
+    protocolVersion?: number;
+    capabilities: string[];
+    compatible: boolean;
+    warnings: string[];
+    latency: number;
+  }
+  
+  export interface RetryPolicy {
+    maxAttempts?: number;
+    initialDelay?: number;
+    maxDelay?: number;
+    factor?: number;
+    jitter?: number;
+    retryOn?: ErrorType[];
+    respectRetryAfter?: boolean;
   }
   
-  export interface Watcher {
+  export interface RetryEvent {
+    operation: string;
+    endpoint: string;
+    attempt: number;
+    maxAttempts: number;
+    delay: number;
+    error: NeuralDiffError;
+  }
+  
+  export interface WatchReconnectOptions {
+    retries?: number;
+    minDelay?: number;
+    maxDelay?: number;
+    factor?: number;
+  }
+  
+  export interface Watcher extends AsyncIterable<WatchResult> {
     id: string;
     stop: () => void;
   }
@@ -109,17 +194,54 @@ export interface NeuralDiffOptions {
   }
   
   export interface BatchOperation {
-    type: 'capture' | 'compare';
+    type: 'capture' | 'compare' | 'pipeline';
     name: string;
     options?: CaptureOptions | CompareOptions;
+    steps?: BatchStep[];
+    retries?: number;
+  }
+  
+  export interface BatchStep {
+    type: 'capture' | 'compare';
+    options?: CaptureOptions | CompareOptions;
+  }
+  
+  export interface BatchOptions {
+    signal?: AbortSignal;
+    failFast?: boolean;
+    retries?: number;
+    retryDelay?: number;
+    onProgress?: (event: BatchProgressEvent) => void;
   }
   
   export interface BatchResult {
     name: string;
-    type: 'capture' | 'compare';
-    status: 'success' | 'error';
+    type: 'capture' | 'compare' | 'pipeline';
+    status: 'success' | 'error' | 'skipped';
     error?: string;
+    failure?: BatchFailure;
     result?: CaptureResult | ComparisonResult;
+    steps?: BatchStepResult[];
+    attempts: number;
+    duration: number;
+  }
+  
+  export interface BatchStepResult {
+    type: 'capture' | 'compare';
+    result: CaptureResult | ComparisonResult;
+    duration: number;
+  }
+  
+  export interface BatchFailure {
+    name: string;
+    message: string;
+    type?: ErrorType;
+    userMessage?: string;
+    step?: 'capture' | 'compare';
+    code?: string;
+    status?: number;
+    retryable: boolean;
+    cause?: unknown;
   }
   
   export interface CaptureResult {
@@ -132,6 +254,7 @@ export interface NeuralDiffOptions {
   }
   
   export interface Viewport {
+    name?: string;
     width: number;
     height: number;
     deviceScaleFactor?: number;
@@ -213,4 +336,221 @@ export interface NeuralDiffOptions {
     selector?: string;
     region?: Region;
     type?: 'dynamic' | 'animated' | 'advertisement';
-  }
\ No newline at end of file
+  }
+  
+  export interface ConfigResolutionOptions {
+    cwd?: string;
+    configPath?: string;
+    env?: Record<string, string | undefined>;
+  }
+  
+  export interface CaptureMatrix {
+    viewports?: Viewport[];
+    colorSchemes?: NonNullable<CaptureOptions['colorScheme']>[];
+    locales?: string[];
+    timezoneIds?: string[];
+    reducedMotion?: NonNullable<CaptureOptions['reducedMotion']>[];
+    forcedColors?: NonNullable<CaptureOptions['forcedColors']>[];
+    capture?: Partial<CaptureOptions>;
+  }
+  
+  export interface MatrixVariant {
+    name: string;
+    key: string;
+    options: Partial<CaptureOptions>;
+  }
+  
+  export interface MatrixResult<T> {
+    name: string;
+    variants: MatrixVariant[];
+    results: Record<string, T>;
+  }
+  
+  export interface ResolvedCompareOptions extends CompareOptions {
+    ignoredTypes?: NonNullable<IgnoreRule['type']>[];
+  }
+  
+  export interface RawImage {
+    width: number;
+    height: number;
+    data: Uint8Array;
+  }
+  
+  export type ImageSource = Uint8Array | string | RawImage;
+  
+  export interface PixelDiffResult {
+    width: number;
+    height: number;
+    totalPixels: number;
+    changedPixels: number;
+    antialiasedPixels: number;
+    ratio: number;
+    regions: Region[];
+    diff: Buffer;
+  }
+  
+  export interface BaselineRecord {
+    name: string;
+    version: string;
+    hash: string;
+    createdAt: string;
+    branch?: string;
+    width?: number;
+    height?: number;
+    tag?: string;
+    metadata?: Record<string, any>;
+  }
+  
+  export interface StoredBaseline {
+    record: BaselineRecord;
+    image: Buffer;
+  }
+  
+  export interface BaselinePutOptions {
+    hash?: string;
+    tag?: string;
+    metadata?: Record<string, any>;
+  }
+  
+  export interface BaselineStore {
+    put(name: string, image: ImageSource, options?: BaselinePutOptions): Promise<BaselineRecord>;
+    get(name: string, version?: string): Promise<StoredBaseline | null>;
+    list(): Promise<BaselineRecord[]>;
+    history(name: string): Promise<BaselineRecord[]>;
+    /** Make a stored version current without changing the history */
+    setCurrent(name: string, version: string): Promise<BaselineRecord>;
+    delete(name: string, version?: string): Promise<void>;
+  }
+  
+  export interface BranchBaselineOptions {
+    /** Branch that reads try first and writes go to (default: `defaultBranch`) */
+    branch?: string;
+    /** Last branch reads fall back to (default 'main') */
+    defaultBranch?: string;
+    /**
+     * Branches to read from between `branch` and `defaultBranch`. Nothing is inferred from
+     * git history (there is no merge-base lookup), so a branch stacked on another feature
+     * branch only sees that branch's baselines when it is listed here.
+     */
+    fallbackBranches?: string[];
+  }
+  
+  export interface PromoteBaselinesOptions {
+    from?: string;
+    to?: string;
+    names?: string[];
+    removeSource?: boolean;
+  }
+  
+  export interface NeuroSpecErrorEvent {
+    operation: 'capture' | 'compare' | 'watch' | 'updateBaseline' | 'approveAll' | 'rollback' | 'promoteBaselines';
+    name: string;
+    id?: string;
+    error: NeuralDiffError;
+  }
+  
+  export interface BatchProgressEvent {
+    completed: number;
+    failed: number;
+    total: number;
+    operation: BatchOperation;
+    result: BatchResult;
+  }
+  
+  export interface WatchDisconnectedEvent {
+    url: string;
+    attempt: number;
+    retryIn: number | null;
+  }
+  
+  export interface NeuroSpecEvents {
+    'capture:start': { name: string; url: string };
+    'capture:done': { name: string; result: CaptureResult; duration: number };
+    'compare:start': { name: string };
+    'compare:done': { name: string; result: ComparisonResult };
+    'batch:progress': BatchProgressEvent;
+    'retry': RetryEvent;
+    'daemon:connected': DaemonInfo;
+    'daemon:warning': { message: string; daemon: DaemonInfo };
+    'change': WatchResult;
+    'watch:connected': { url: string };
+    'watch:disconnected': WatchDisconnectedEvent;
+    'baseline:updated': { name: string; version?: string };
+    'baseline:rollback': { name: string; version?: string };
+    'baseline:promoted': { from: string; to: string; names: string[] };
+    'changes:approved': { tag?: string };
+    'error': NeuroSpecErrorEvent;
+  }
+  
+  export type NeuroSpecEventName = keyof NeuroSpecEvents;
+  
+  export type NeuroSpecListener<E extends NeuroSpecEventName> = (payload: NeuroSpecEvents[E]) => void;
+  
+  export type ReportFormat = 'junit' | 'sarif' | 'json';
+  
+  export interface ReportPolicy {
+    /** Lowest change severity that fails a comparison (default 'low', i.e. any change) */
+    failOn?: SemanticChange['severity'];
+    /** Changes the daemon is less confident about than this are reported but never fail (default 0) */
+    minConfidence?: number;
+  }
+  
+  export interface ReportOptions {
+    policy?: ReportPolicy;
+    /** Suite name in JUnit, run name in JSON (default 'NeuralDiff') */
+    suiteName?: string;
+    /** Report timestamp; pass a fixed date for reproducible output */
+    timestamp?: Date;
+  }
+  
+  export type ReportStatus = 'passed' | 'failed' | 'error' | 'skipped';
+  
+  export interface ReportEntry {
+    name: string;
+    status: ReportStatus;
+    duration: number;
+    summary: string;
+    confidence?: number;
+    changes: SemanticChange[];
+    /** Changes that violate the policy */
+    failures: SemanticChange[];
+    diff?: string;
+    baseline?: string;
+    current?: string;
+    error?: string;
+  }
+  
+  export interface JsonReport {
+    schemaVersion: 1;
+    tool: { name: 'neuraldiff'; version: string };
+    name: string;
+    generatedAt: string;
+    policy: Required<ReportPolicy>;
+    summary: { total: number; passed: number; failed: number; errors: number; skipped: number; duration: number };
+    results: ReportEntry[];
+  }
+  
+  export interface HtmlReportOptions extends ReportOptions {
+    /** Page title (default 'NeuralDiff visual review') */
+    title?: string;
+    /** Embed local screenshots as data URIs so the file stands alone (default true) */
+    inlineImages?: boolean;
+    /** Directory relative image paths are resolved against (default: the current directory) */
+    baseDir?: string;
+  }
+  
+  export interface VisualBaselineOptions extends CompareOptions {
+    /** Capture settings; the URL comes from the value under test */
+    capture?: Partial<Omit<CaptureOptions, 'url'>>;
+  }
+  
+  export interface VisualMatcherOptions {
+    /** Replace baselines instead of comparing (default: the test runner's `-u`/`--update` flag or NEURALDIFF_UPDATE_BASELINES) */
+    update?: boolean;
+    /** Create missing baselines on first run (default: true, except in CI where the runner doesn't write new snapshots) */
+    createMissing?: boolean;
+  }
+  
+  export interface VisualBaselineMatchers<R = unknown> {
+    toMatchVisualBaseline(name: string, options?: VisualBaselineOptions): R;
+  }
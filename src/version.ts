@@ -0,0 +1,6 @@
+/**
+ * NeuralDiff SDK - Version
+ * Kept in sync with package.json by scripts/version.js
+ */
+
+export const SDK_VERSION = '1.0.0';
@@ -0,0 +1,281 @@
+/**
+ * NeuralDiff SDK - Watch Manager
+ * Multiplexes watchers over one daemon WebSocket with reconnect and re-subscribe
+ */
+
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import type { WatchOptions, WatchReconnectOptions } from './types';
+
+/**
+ * The subset of a `ws` WebSocket the manager relies on
+ */
+export interface WatchSocket {
+    readonly readyState: number;
+    send(data: string): void;
+    close(): void;
+    on(event: 'open' | 'close', listener: () => void): unknown;
+    on(event: 'message', listener: (data: unknown) => void): unknown;
+    on(event: 'error', listener: (error: Error) => void): unknown;
+}
+
+export interface WatchSubscription {
+    url: string;
+    options?: WatchOptions | undefined;
+    onMessage: (message: any) => void;
+    onError: (error: Error) => void;
+    /** Called once when the connection is lost for good; the subscription is already removed */
+    onClose?: (error: Error) => void;
+}
+
+export interface WatchManagerOptions {
+    reconnect?: WatchReconnectOptions | false;
+    createSocket?: (url: string) => WatchSocket;
+}
+
+export const DEFAULT_WATCH_RECONNECT: Required<WatchReconnectOptions> = {
+    retries: 10,
+    minDelay: 500,
+    maxDelay: 30000,
+    factor: 2
+};
+
+const OPEN = 1;
+
+let watcherCount = 0;
+
+/**
+ * Keeps a single socket to the daemon for any number of watchers.
+ *
+ * Every watcher is registered under its own ID, which is sent with `start-watch` and echoed
+ * back by the daemon on its messages. When the socket drops the manager reconnects with
+ * exponential backoff and re-sends `start-watch` for every live watcher. The socket is
+ * closed once the last watcher stops.
+ *
+ * Emits `connected` and `disconnected` (with the upcoming retry delay, or null when giving up).
+ * Socket and protocol errors go to every affected watcher's `onError`.
+ */
+export class WatchManager extends EventEmitter {
+    private readonly url: string;
+    private readonly reconnect: Required<WatchReconnectOptions> | null;
+    private readonly createSocket: (url: string) => WatchSocket;
+    private readonly subscriptions = new Map<string, WatchSubscription>();
+    private socket: WatchSocket | null = null;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private attempts = 0;
+    private disposed = false;
+
+    constructor(url: string, options: WatchManagerOptions = {}) {
+        super();
+        this.url = url;
+        this.reconnect = options.reconnect === false ? null : { ...DEFAULT_WATCH_RECONNECT, ...options.reconnect };
+        this.createSocket = options.createSocket || (socketUrl => new WebSocket(socketUrl));
+    }
+
+    /**
+     * Number of live watchers
+     */
+    get size(): number {
+        return this.subscriptions.size;
+    }
+
+    /**
+     * Register a watcher and return its ID
+     */
+    subscribe(subscription: WatchSubscription): string {
+        if (this.disposed) {
+            throw new Error('Watch manager has been disposed');
+        }
+
+        const id = `watch-${Date.now().toString(36)}-${++watcherCount}`;
+        this.subscriptions.set(id, subscription);
+
+        if (this.socket?.readyState === OPEN) {
+            this.sendStart(id, subscription);
+        } else if (!this.socket && !this.reconnectTimer) {
+            this.connect();
+        }
+        return id;
+    }
+
+    /**
+     * Stop one watcher, closing the socket when it was the last one
+     */
+    unsubscribe(id: string): void {
+        if (!this.subscriptions.delete(id)) return;
+
+        if (this.socket?.readyState === OPEN) {
+            this.send({ type: 'stop', id });
+        }
+        if (this.subscriptions.size === 0) {
+            this.teardown();
+        }
+    }
+
+    /**
+     * Stop every watcher and close the socket for good
+     */
+    dispose(): void {
+        for (const id of Array.from(this.subscriptions.keys())) {
+            this.unsubscribe(id);
+        }
+        this.disposed = true;
+        this.teardown();
+        this.removeAllListeners();
+    }
+
+    private connect(): void {
+        this.reconnectTimer = null;
+
+        let socket: WatchSocket;
+        try {
+            socket = this.createSocket(this.url);
+        } catch (error) {
+            this.broadcastError(toError(error));
+            this.scheduleReconnect();
+            return;
+        }
+        this.socket = socket;
+
+        socket.on('open', () => {
+            if (this.socket !== socket) return;
+            this.attempts = 0;
+            for (const [id, subscription] of this.subscriptions) {
+                this.sendStart(id, subscription);
+            }
+            this.emit('connected');
+        });
+
+        socket.on('message', data => {
+            if (this.socket !== socket) return;
+            this.handleMessage(data);
+        });
+
+        socket.on('error', error => {
+            if (this.socket !== socket) return;
+            this.broadcastError(error);
+        });
+
+        socket.on('close', () => {
+            if (this.socket !== socket) return;
+            this.socket = null;
+            this.scheduleReconnect();
+        });
+    }
+
+    private scheduleReconnect(): void {
+        if (this.disposed || this.subscriptions.size === 0) return;
+
+        if (!this.reconnect || this.attempts >= this.reconnect.retries) {
+            const error = new Error(
+                this.reconnect
+                    ? `Watch connection to ${this.url} lost after ${this.attempts} reconnect attempts`
+                    : `Watch connection to ${this.url} closed`
+            );
+            this.emit('disconnected', { attempt: this.attempts, retryIn: null });
+            this.broadcastError(error);
+
+            // Nothing will reconnect these watchers, so end them instead of leaving them waiting
+            const closed = Array.from(this.subscriptions.values());
+            this.subscriptions.clear();
+            for (const subscription of closed) {
+                subscription.onClose?.(error);
+            }
+            return;
+        }
+
+        const { minDelay, maxDelay, factor } = this.reconnect;
+        const delay = Math.min(maxDelay, minDelay * Math.pow(factor, this.attempts));
+        this.attempts++;
+
+        this.emit('disconnected', { attempt: this.attempts, retryIn: delay });
+        this.reconnectTimer = setTimeout(() => this.connect(), delay);
+    }
+
+    private handleMessage(data: unknown): void {
+        let message: any;
+        try {
+            message = JSON.parse(String(data));
+        } catch {
+            message = undefined;
+        }
+        // Valid JSON such as `null` or `42` is no more a watch message than broken JSON
+        if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+            this.broadcastError(new Error(`Received malformed watch message: ${truncate(String(data))}`));
+            return;
+        }
+
+        // Messages without an ID come from daemons that predate multiplexing
+        const targets = message.id !== undefined
+            ? [this.subscriptions.get(message.id)].filter((s): s is WatchSubscription => !!s)
+            : Array.from(this.subscriptions.values());
+
+        for (const subscription of targets) {
+            if (message.type === 'error') {
+                this.notifyError(subscription, new Error(message.message || message.error || 'Watch failed'));
+            } else {
+                try {
+                    subscription.onMessage(message);
+                } catch (error) {
+                    this.notifyError(subscription, toError(error));
+                }
+            }
+        }
+    }
+
+    private sendStart(id: string, { url, options }: WatchSubscription): void {
+        this.send({
+            type: 'start-watch',
+            id,
+            url,
+            options: {
+                ...(options?.paths ? { paths: options.paths } : {}),
+                ...(options?.interval !== undefined ? { interval: options.interval } : {}),
+                ...(options?.viewport ? { viewport: options.viewport } : {}),
+                ...(options?.includeStyles !== undefined ? { includeStyles: options.includeStyles } : {}),
+                ...(options?.includeDOMChanges !== undefined ? { includeDOMChanges: options.includeDOMChanges } : {})
+            }
+        });
+    }
+
+    private send(message: object): void {
+        try {
+            this.socket?.send(JSON.stringify(message));
+        } catch (error) {
+            this.broadcastError(toError(error));
+        }
+    }
+
+    private broadcastError(error: Error): void {
+        for (const subscription of this.subscriptions.values()) {
+            this.notifyError(subscription, error);
+        }
+    }
+
+    private notifyError(subscription: WatchSubscription, error: Error): void {
+        try {
+            subscription.onError(error);
+        } catch {
+            // a throwing error handler must not take down the socket listener
+        }
+    }
+
+    private teardown(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        const socket = this.socket;
+        this.socket = null;
+        this.attempts = 0;
+        socket?.close();
+    }
+}
+
+function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+function truncate(text: string, length = 80): string {
+    return text.length > length ? `${text.slice(0, length)}…` : text;
+}
@@ -0,0 +1,146 @@
+/**
+ * NeuralDiff SDK - Watch Streams
+ * Bounded async queues and per-key debouncing for consuming watch results with `for await`
+ */
+
+export const DEFAULT_WATCH_BUFFER_SIZE = 100;
+
+/**
+ * A single-consumer async queue.
+ *
+ * Items pushed while nobody is awaiting are buffered up to `bufferSize`; beyond that the
+ * oldest buffered item is dropped, so a slow or absent consumer never grows memory without
+ * bound. Ending the stream lets the consumer drain what is buffered before `done`; failing it
+ * drains the buffer and then rejects with the error.
+ */
+export class AsyncQueue<T> implements AsyncIterable<T> {
+    private readonly buffer: T[] = [];
+    private readonly waiting: Array<{ resolve: (result: IteratorResult<T>) => void; reject: (error: Error) => void }> = [];
+    private readonly bufferSize: number;
+    private readonly onReturn: (() => void) | undefined;
+    private ended = false;
+    private failure: Error | null = null;
+    private dropped = 0;
+
+    constructor(options: { bufferSize?: number | undefined; onReturn?: () => void } = {}) {
+        this.bufferSize = Math.max(1, options.bufferSize ?? DEFAULT_WATCH_BUFFER_SIZE);
+        this.onReturn = options.onReturn;
+    }
+
+    /**
+     * Items discarded because the buffer was full
+     */
+    get droppedCount(): number {
+        return this.dropped;
+    }
+
+    get isEnded(): boolean {
+        return this.ended;
+    }
+
+    push(item: T): void {
+        if (this.ended) return;
+
+        const waiter = this.waiting.shift();
+        if (waiter) {
+            waiter.resolve({ value: item, done: false });
+            return;
+        }
+
+        if (this.buffer.length >= this.bufferSize) {
+            this.buffer.shift();
+            this.dropped++;
+        }
+        this.buffer.push(item);
+    }
+
+    end(): void {
+        if (this.ended) return;
+        this.ended = true;
+        for (const waiter of this.waiting.splice(0)) {
+            waiter.resolve({ value: undefined, done: true });
+        }
+    }
+
+    /**
+     * End the stream with an error, thrown to the consumer once the buffer is drained
+     */
+    fail(error: Error): void {
+        if (this.ended) return;
+        this.ended = true;
+        this.failure = error;
+        for (const waiter of this.waiting.splice(0)) {
+            waiter.reject(error);
+        }
+    }
+
+    [Symbol.asyncIterator](): AsyncIterator<T> {
+        return {
+            next: () => {
+                if (this.buffer.length > 0) {
+                    return Promise.resolve({ value: this.buffer.shift()!, done: false });
+                }
+                if (this.failure) {
+                    return Promise.reject(this.failure);
+                }
+                if (this.ended) {
+                    return Promise.resolve({ value: undefined, done: true });
+                }
+                return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+            },
+            // `break` out of a for-await loop lands here
+            return: () => {
+                this.buffer.length = 0;
+                this.end();
+                this.onReturn?.();
+                return Promise.resolve({ value: undefined, done: true });
+            }
+        };
+    }
+}
+
+/**
+ * Collapses bursts of items sharing a key: each key is delivered once, with its latest
+ * value, after `delay` ms without a newer one.
+ */
+export class KeyedDebouncer<T> {
+    private readonly pending = new Map<string, { item: T; timer: NodeJS.Timeout }>();
+    private readonly delay: number;
+    private readonly keyOf: (item: T) => string;
+    private readonly deliver: (item: T) => void;
+
+    constructor(delay: number, keyOf: (item: T) => string, deliver: (item: T) => void) {
+        this.delay = delay;
+        this.keyOf = keyOf;
+        this.deliver = deliver;
+    }
+
+    push(item: T): void {
+        const key = this.keyOf(item);
+        const existing = this.pending.get(key);
+        if (existing) clearTimeout(existing.timer);
+
+        const timer = setTimeout(() => {
+            this.pending.delete(key);
+            this.deliver(item);
+        }, this.delay);
+        this.pending.set(key, { item, timer });
+    }
+
+    /**
+     * Deliver everything still waiting right away
+     */
+    flush(): void {
+        const entries = Array.from(this.pending.values());
+        this.cancel();
+        for (const { item } of entries) this.deliver(item);
+    }
+
+    /**
+     * Drop everything still waiting
+     */
+    cancel(): void {
+        for (const { timer } of this.pending.values()) clearTimeout(timer);
+        this.pending.clear();
+    }
+}
@@ -1,11 +1,22 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  // One entry per public subpath; keep in sync with "exports" in package.json
+  entry: {
+    index: 'src/index.ts',
+    bin: 'src/bin.ts',
+    react: 'src/react.ts',
+    playwright: 'src/playwright.ts',
+    cypress: 'src/cypress.ts',
+    'cypress-support': 'src/cypress-support.ts',
+    storybook: 'src/storybook.ts',
+    nextjs: 'src/nextjs.ts',
+  },
   format: ['cjs', 'esm'],
   dts: true,
   clean: true,
-  splitting: false,
+  // Subpath bundles share the core chunk, so `instanceof NeuroSpec` holds across them
+  splitting: true,
   sourcemap: true,
   minify: process.env.NODE_ENV === 'production',
   external: ['react', 'vue'],